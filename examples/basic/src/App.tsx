@@ -62,6 +62,7 @@ function App() {
               adapter: createOpenAIAdapter(),
               onEvent: params.onEvent,
               onComplete: params.onComplete,
+              onAbort: params.onAbort,
               onError: (err) => {
                 setError(err.message)
                 params.onError(err)
@@ -78,6 +79,7 @@ function App() {
               adapter: createGeminiAdapter(),
               onEvent: params.onEvent,
               onComplete: params.onComplete,
+              onAbort: params.onAbort,
               onError: (err) => {
                 setError(err.message)
                 params.onError(err)
@@ -94,6 +96,7 @@ function App() {
               adapter: createAnthropicAdapter(),
               onEvent: params.onEvent,
               onComplete: params.onComplete,
+              onAbort: params.onAbort,
               onError: (err) => {
                 setError(err.message)
                 params.onError(err)
@@ -1,6 +1,18 @@
 import type { IStreamEvent } from '../context/ChatConfigContext'
+import type { FinishReason } from '../types'
 import type { EventAdapter, IAnthropicStreamEvent } from './types'
 
+/**
+ * Anthropic `stop_reason` values, normalized
+ */
+const FINISH_REASONS: Record<string, FinishReason> = {
+    end_turn: 'stop',
+    stop_sequence: 'stop',
+    max_tokens: 'length',
+    refusal: 'content_filter',
+    tool_use: 'tool_calls',
+}
+
 /**
  * Tracks tool use blocks being accumulated
  */
@@ -17,21 +29,31 @@ interface IToolUseState {
  * ```tsx
  * const adapter = createAnthropicAdapter()
  *
- * // In your streaming handler:
- * const event = adapter(rawEvent)
- * if (event) onEvent(event)
+ * // In your streaming handler (one raw event can yield several events):
+ * toStreamEvents(adapter(rawEvent)).forEach(onEvent)
  * ```
  */
 export function createAnthropicAdapter(): EventAdapter {
     // Track tool use blocks being built
     const toolUseInProgress = new Map<number, IToolUseState>()
 
-    return (rawEvent: unknown): IStreamEvent | null => {
+    return (rawEvent: unknown): IStreamEvent | IStreamEvent[] | null => {
         if (typeof rawEvent !== 'object' || rawEvent === null) return null
 
         const event = rawEvent as IAnthropicStreamEvent
 
         switch (event.type) {
+            case 'message_start': {
+                // Input tokens are known up front
+                const usage = event.message?.usage
+                if (!usage) return null
+                return {
+                    type: 'usage',
+                    input_tokens: usage.input_tokens,
+                    output_tokens: usage.output_tokens,
+                }
+            }
+
             case 'content_block_start':
                 // Check if this is a tool_use block starting
                 if (event.content_block?.type === 'tool_use') {
@@ -44,6 +66,7 @@ export function createAnthropicAdapter(): EventAdapter {
 
                     return {
                         type: 'tool_start',
+                        tool_call_id: event.content_block.id ?? `tool_${index}`,
                         tool_name: event.content_block.name ?? 'unknown_tool',
                     }
                 }
@@ -58,6 +81,14 @@ export function createAnthropicAdapter(): EventAdapter {
                     }
                 }
 
+                // Handle extended thinking
+                if (event.delta?.type === 'thinking_delta' && event.delta.thinking) {
+                    return {
+                        type: 'reasoning',
+                        content: event.delta.thinking,
+                    }
+                }
+
                 // Handle tool input JSON delta
                 if (event.delta?.type === 'input_json_delta' && event.delta.partial_json) {
                     const index = event.index ?? 0
@@ -69,15 +100,16 @@ export function createAnthropicAdapter(): EventAdapter {
                 return null
 
             case 'content_block_stop': {
-                // Check if a tool use block finished
+                // A finished tool use block: its accumulated input is the call arguments
                 const index = event.index ?? 0
                 const toolUse = toolUseInProgress.get(index)
                 if (toolUse) {
                     toolUseInProgress.delete(index)
                     return {
-                        type: 'tool_end',
+                        type: 'tool_call',
+                        tool_call_id: toolUse.id,
                         tool_name: toolUse.name,
-                        output: toolUse.input,
+                        arguments: toolUse.input || '{}',
                     }
                 }
                 return null
@@ -89,8 +121,21 @@ export function createAnthropicAdapter(): EventAdapter {
                     message: event.error?.message ?? 'Unknown Anthropic API error',
                 }
 
-            case 'message_start':
-            case 'message_delta':
+            case 'message_delta': {
+                // The output token count and stop reason arrive once the message is finished
+                const events: IStreamEvent[] = []
+                if (event.usage?.output_tokens !== undefined) {
+                    events.push({ type: 'usage', output_tokens: event.usage.output_tokens })
+                }
+                if (event.delta?.stop_reason) {
+                    events.push({
+                        type: 'done',
+                        finish_reason: FINISH_REASONS[event.delta.stop_reason] ?? 'other',
+                    })
+                }
+                return events.length > 0 ? events : null
+            }
+
             case 'message_stop':
             case 'ping':
                 // These events don't produce UI updates
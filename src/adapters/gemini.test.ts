@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest'
+import { geminiTextAdapter } from './gemini'
+import type { IGeminiStreamChunk } from './types'
+
+const chunk = (parts: Array<{ text?: string; thought?: boolean }>): IGeminiStreamChunk => ({
+    candidates: [{ content: { role: 'model', parts } }],
+})
+
+describe('geminiTextAdapter', () => {
+    it('emits a token for every text part', () => {
+        expect(geminiTextAdapter(chunk([{ text: 'Hello' }, { text: ', world' }]))).toEqual([
+            { type: 'llm_token', content: 'Hello' },
+            { type: 'llm_token', content: ', world' },
+        ])
+    })
+
+    it('skips thought summaries and empty parts', () => {
+        expect(
+            geminiTextAdapter(chunk([{ text: 'Let me think', thought: true }, {}, { text: 'Hi' }])),
+        ).toEqual([{ type: 'llm_token', content: 'Hi' }])
+        expect(geminiTextAdapter(chunk([{ text: 'Hmm', thought: true }]))).toBeNull()
+    })
+})
@@ -1,5 +1,48 @@
 import type { IStreamEvent } from '../context/ChatConfigContext'
-import type { EventAdapter, IGeminiStreamChunk } from './types'
+import type { FinishReason } from '../types'
+import type { EventAdapter, IGeminiSafetyRating, IGeminiStreamChunk } from './types'
+
+/**
+ * Gemini `finishReason` values, normalized. Function calls end with `STOP`.
+ */
+const FINISH_REASONS: Record<string, FinishReason> = {
+    STOP: 'stop',
+    MAX_TOKENS: 'length',
+    SAFETY: 'content_filter',
+    RECITATION: 'content_filter',
+    BLOCKLIST: 'content_filter',
+    PROHIBITED_CONTENT: 'content_filter',
+    SPII: 'content_filter',
+}
+
+/**
+ * Readable names of the categories that blocked the content, e.g.
+ * `'hate speech'` for `HARM_CATEGORY_HATE_SPEECH`. Ratings marked `blocked`
+ * are used when there are any, otherwise those rated `MEDIUM` or `HIGH`.
+ */
+const getBlockedCategories = (ratings: IGeminiSafetyRating[] = []): string[] => {
+    const blocked = ratings.filter((rating) => rating.blocked)
+    const flagged = blocked.length > 0
+        ? blocked
+        : ratings.filter((rating) => rating.probability === 'MEDIUM' || rating.probability === 'HIGH')
+    return flagged
+        .map((rating) => rating.category?.replace(/^HARM_CATEGORY_/, '').toLowerCase())
+        .filter((category): category is string => Boolean(category))
+        .map((category) => category.replace(/_/g, ' '))
+}
+
+/**
+ * The `done` event for a finish reason, with the blocking categories for
+ * safety stops
+ */
+const toDoneEvent = (finishReason: string, ratings?: IGeminiSafetyRating[]): IStreamEvent => {
+    const reason = FINISH_REASONS[finishReason] ?? 'other'
+    return {
+        type: 'done',
+        finish_reason: reason,
+        blocked_categories: reason === 'content_filter' ? getBlockedCategories(ratings) : undefined,
+    }
+}
 
 /**
  * Creates a Google Gemini event adapter with function calling support
@@ -8,72 +51,113 @@ import type { EventAdapter, IGeminiStreamChunk } from './types'
  * ```tsx
  * const adapter = createGeminiAdapter()
  *
- * // In your streaming handler:
- * const event = adapter(rawChunk)
- * if (event) onEvent(event)
+ * // In your streaming handler (one raw chunk can yield several events):
+ * toStreamEvents(adapter(rawChunk)).forEach(onEvent)
  * ```
  */
 export function createGeminiAdapter(): EventAdapter {
-    return (rawEvent: unknown): IStreamEvent | null => {
+    // Calls awaiting a response, per function name, for responses without an id
+    const pendingCalls = new Map<string, string[]>()
+    let callCount = 0
+
+    return (rawEvent: unknown): IStreamEvent[] | null => {
         if (typeof rawEvent !== 'object' || rawEvent === null) return null
 
         const chunk = rawEvent as IGeminiStreamChunk
         const candidate = chunk.candidates?.[0]
+        const events: IStreamEvent[] = []
 
-        if (!candidate?.content?.parts) return null
+        for (const part of candidate?.content?.parts ?? []) {
+            // Handle thought summaries (with `includeThoughts`)
+            if (part.thought && part.text) {
+                events.push({
+                    type: 'reasoning',
+                    content: part.text,
+                })
+                continue
+            }
 
-        for (const part of candidate.content.parts) {
             // Handle text content
             if (part.text) {
-                return {
+                events.push({
                     type: 'llm_token',
                     content: part.text,
-                }
+                })
+                continue
             }
 
             // Handle function calls
             if (part.functionCall) {
-                return {
-                    type: 'tool_start',
-                    tool_name: part.functionCall.name ?? 'unknown_function',
-                    input: JSON.stringify(part.functionCall.args ?? {}),
-                }
+                const name = part.functionCall.name ?? 'unknown_function'
+                const id = part.functionCall.id ?? `${name}_${callCount++}`
+                pendingCalls.set(name, [...(pendingCalls.get(name) ?? []), id])
+                events.push({
+                    type: 'tool_call',
+                    tool_call_id: id,
+                    tool_name: name,
+                    arguments: JSON.stringify(part.functionCall.args ?? {}),
+                })
+                continue
             }
 
             // Handle function responses (tool results)
             if (part.functionResponse) {
-                return {
-                    type: 'tool_end',
-                    tool_name: part.functionResponse.name ?? 'unknown_function',
-                    output: JSON.stringify(part.functionResponse.response ?? {}),
-                }
+                const name = part.functionResponse.name ?? 'unknown_function'
+                // Without an id, responses answer the oldest pending call of the same function
+                const pending = pendingCalls.get(name) ?? []
+                const id = part.functionResponse.id ?? pending[0]
+                pendingCalls.set(name, pending.filter((pendingId) => pendingId !== id))
+                events.push({
+                    type: 'tool_result',
+                    tool_call_id: id,
+                    tool_name: name,
+                    result: JSON.stringify(part.functionResponse.response ?? {}),
+                })
             }
         }
 
-        return null
+        if (candidate?.finishReason) {
+            events.push(toDoneEvent(candidate.finishReason, candidate.safetyRatings))
+        }
+
+        // A blocked prompt gets no answer at all
+        if (chunk.promptFeedback?.blockReason) {
+            events.push(toDoneEvent('SAFETY', chunk.promptFeedback.safetyRatings))
+        }
+
+        // Every chunk carries the running token counts
+        if (chunk.usageMetadata) {
+            events.push({
+                type: 'usage',
+                input_tokens: chunk.usageMetadata.promptTokenCount,
+                output_tokens: chunk.usageMetadata.candidatesTokenCount,
+            })
+        }
+
+        return events.length > 0 ? events : null
     }
 }
 
 /**
- * Simple stateless Gemini adapter for text-only responses
+ * Simple stateless Gemini adapter for text-only responses. Emits a token
+ * for every text part of a chunk.
  *
  * @example
  * ```tsx
- * const event = geminiTextAdapter(rawChunk)
+ * toStreamEvents(geminiTextAdapter(rawChunk)).forEach(onEvent)
  * ```
  */
-export const geminiTextAdapter: EventAdapter = (rawEvent: unknown): IStreamEvent | null => {
+export const geminiTextAdapter: EventAdapter = (rawEvent: unknown): IStreamEvent[] | null => {
     if (typeof rawEvent !== 'object' || rawEvent === null) return null
 
     const chunk = rawEvent as IGeminiStreamChunk
-    const text = chunk.candidates?.[0]?.content?.parts?.[0]?.text
-
-    if (text) {
-        return {
-            type: 'llm_token',
-            content: text,
+    const events: IStreamEvent[] = []
+    for (const part of chunk.candidates?.[0]?.content?.parts ?? []) {
+        // Thought summaries aren't answer text
+        if (part.text && !part.thought) {
+            events.push({ type: 'llm_token', content: part.text })
         }
     }
 
-    return null
+    return events.length > 0 ? events : null
 }
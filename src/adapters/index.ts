@@ -17,8 +17,11 @@ export { createGeminiAdapter, geminiTextAdapter } from './gemini'
 
 export type {
     EventAdapter,
+    EventAdapterResult,
     IStreamingOptions,
     IOpenAIStreamChunk,
+    IOpenAIReasoningSummaryEvent,
     IAnthropicStreamEvent,
     IGeminiStreamChunk,
+    IGeminiSafetyRating,
 } from './types'
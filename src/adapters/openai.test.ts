@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest'
+import { createOpenAIAdapter } from './openai'
+import { toStreamEvents } from '../utils/streaming'
+import type { IOpenAIStreamChunk } from './types'
+
+/**
+ * Runs the chunks of one response through a fresh adapter
+ */
+const adapt = (chunks: unknown[]) => {
+    const adapter = createOpenAIAdapter()
+    return chunks.flatMap((chunk) => toStreamEvents(adapter(chunk)))
+}
+
+const delta = (
+    fields: NonNullable<NonNullable<IOpenAIStreamChunk['choices']>[0]['delta']>,
+    finishReason: string | null = null,
+): IOpenAIStreamChunk => ({
+    object: 'chat.completion.chunk',
+    choices: [{ index: 0, delta: fields, finish_reason: finishReason }],
+})
+
+describe('createOpenAIAdapter', () => {
+    it.each(['reasoning_content', 'reasoning'] as const)(
+        'streams %s deltas as reasoning before the answer',
+        (field) => {
+            const events = adapt([
+                delta({ role: 'assistant', content: null, [field]: 'The user ' }),
+                delta({ content: null, [field]: 'says hi.' }),
+                delta({ content: 'Hello', [field]: null }),
+                delta({ content: '!' }),
+                delta({}, 'stop'),
+            ])
+
+            expect(events).toEqual([
+                { type: 'reasoning', content: 'The user ' },
+                { type: 'reasoning', content: 'says hi.' },
+                { type: 'llm_token', content: 'Hello' },
+                { type: 'llm_token', content: '!' },
+                { type: 'done', finish_reason: 'stop' },
+            ])
+        },
+    )
+
+    it('streams reasoning summaries of the Responses API', () => {
+        const events = adapt([
+            { type: 'response.reasoning_summary_text.delta', delta: 'Thinking' },
+            { type: 'response.reasoning_summary_text.delta', delta: '' },
+        ])
+
+        expect(events).toEqual([{ type: 'reasoning', content: 'Thinking' }])
+    })
+
+    it('emits tool calls with their accumulated arguments', () => {
+        const events = adapt([
+            delta({
+                tool_calls: [
+                    { index: 0, id: 'call_1', function: { name: 'search', arguments: '' } },
+                ],
+            }),
+            delta({ tool_calls: [{ index: 0, function: { arguments: '{"q":' } }] }),
+            delta({ tool_calls: [{ index: 0, function: { arguments: '"docs"}' } }] }),
+            delta({}, 'tool_calls'),
+        ])
+
+        expect(events).toEqual([
+            { type: 'tool_start', tool_call_id: 'call_1', tool_name: 'search' },
+            {
+                type: 'tool_call',
+                tool_call_id: 'call_1',
+                tool_name: 'search',
+                arguments: '{"q":"docs"}',
+            },
+            { type: 'done', finish_reason: 'tool_calls' },
+        ])
+    })
+
+    it('reports the usage of the final chunk', () => {
+        const events = adapt([{ choices: [], usage: { prompt_tokens: 12, completion_tokens: 5 } }])
+
+        expect(events).toEqual([{ type: 'usage', input_tokens: 12, output_tokens: 5 }])
+    })
+})
@@ -1,5 +1,17 @@
 import type { IStreamEvent } from '../context/ChatConfigContext'
-import type { EventAdapter, IOpenAIStreamChunk } from './types'
+import type { FinishReason } from '../types'
+import type { EventAdapter, IOpenAIReasoningSummaryEvent, IOpenAIStreamChunk } from './types'
+
+/**
+ * OpenAI `finish_reason` values, normalized
+ */
+const FINISH_REASONS: Record<string, FinishReason> = {
+    stop: 'stop',
+    length: 'length',
+    content_filter: 'content_filter',
+    tool_calls: 'tool_calls',
+    function_call: 'tool_calls',
+}
 
 /**
  * Tracks the state of tool calls being accumulated across multiple chunks
@@ -17,53 +29,75 @@ interface IToolCallState {
  * ```tsx
  * const adapter = createOpenAIAdapter()
  *
- * // In your streaming handler:
- * const event = adapter(rawChunk)
- * if (event) onEvent(event)
+ * // In your streaming handler (one raw chunk can yield several events):
+ * toStreamEvents(adapter(rawChunk)).forEach(onEvent)
  * ```
  */
 export function createOpenAIAdapter(): EventAdapter {
     // Track tool calls being built up across chunks
     const toolCallsInProgress = new Map<number, IToolCallState>()
 
-    return (rawEvent: unknown): IStreamEvent | null => {
+    return (rawEvent: unknown): IStreamEvent[] | null => {
         if (typeof rawEvent !== 'object' || rawEvent === null) return null
 
+        // Reasoning summaries stream as Responses API events
+        const summary = rawEvent as IOpenAIReasoningSummaryEvent
+        if (summary.type === 'response.reasoning_summary_text.delta') {
+            return summary.delta ? [{ type: 'reasoning', content: summary.delta }] : null
+        }
+
         const chunk = rawEvent as IOpenAIStreamChunk
         const choice = chunk.choices?.[0]
+        const events: IStreamEvent[] = []
+
+        // With `stream_options: { include_usage: true }` the last chunk carries
+        // the usage and no choices
+        if (chunk.usage) {
+            events.push({
+                type: 'usage',
+                input_tokens: chunk.usage.prompt_tokens,
+                output_tokens: chunk.usage.completion_tokens,
+            })
+        }
 
-        if (!choice) return null
+        if (!choice) return events.length > 0 ? events : null
 
         const delta = choice.delta
 
+        // Thinking of reasoning models served through OpenAI-compatible APIs
+        const reasoning = delta?.reasoning_content ?? delta?.reasoning
+        if (reasoning) {
+            events.push({ type: 'reasoning', content: reasoning })
+        }
+
         // Handle text content
         if (delta?.content) {
-            return {
+            events.push({
                 type: 'llm_token',
                 content: delta.content,
-            }
+            })
         }
 
         // Handle tool calls (function calling)
         if (delta?.tool_calls) {
-            const events: IStreamEvent[] = []
-
             for (const toolCall of delta.tool_calls) {
                 const index = toolCall.index ?? 0
 
                 // New tool call starting
                 if (toolCall.function?.name) {
+                    const id = toolCall.id ?? `tool_${index}`
                     toolCallsInProgress.set(index, {
-                        id: toolCall.id ?? `tool_${index}`,
+                        id,
                         name: toolCall.function.name,
                         arguments: toolCall.function.arguments ?? '',
                     })
 
-                    return {
+                    events.push({
                         type: 'tool_start',
+                        tool_call_id: id,
                         tool_name: toolCall.function.name,
-                        input: toolCall.function.arguments,
-                    }
+                    })
+                    continue
                 }
 
                 // Accumulating arguments for existing tool call
@@ -74,24 +108,30 @@ export function createOpenAIAdapter(): EventAdapter {
                     }
                 }
             }
-
-            if (events.length > 0) return events[0]
         }
 
         // Handle finish reason (tool call complete)
         if (choice.finish_reason === 'tool_calls') {
-            // Emit tool_end for all accumulated tool calls
+            // Emit tool_call with the complete arguments for all accumulated tool calls
             for (const [, toolCall] of toolCallsInProgress) {
-                return {
-                    type: 'tool_end',
+                events.push({
+                    type: 'tool_call',
+                    tool_call_id: toolCall.id,
                     tool_name: toolCall.name,
-                    output: toolCall.arguments,
-                }
+                    arguments: toolCall.arguments,
+                })
             }
             toolCallsInProgress.clear()
         }
 
-        return null
+        if (choice.finish_reason) {
+            events.push({
+                type: 'done',
+                finish_reason: FINISH_REASONS[choice.finish_reason] ?? 'other',
+            })
+        }
+
+        return events.length > 0 ? events : null
     }
 }
 
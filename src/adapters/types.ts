@@ -1,10 +1,20 @@
 import type { IStreamEvent } from '../context/ChatConfigContext'
+import type { ISSEMessage } from '../utils/streaming'
+
+/**
+ * Result of an event adapter: one event, several events, or null to ignore the raw event
+ */
+export type EventAdapterResult = IStreamEvent | IStreamEvent[] | null
 
 /**
  * Function signature for event adapters
- * Transforms raw backend events to the standard IStreamEvent format
+ * Transforms raw backend events to the standard IStreamEvent format.
+ * Return an array when a single raw chunk carries several events.
+ *
+ * @param rawEvent - The parsed event payload (JSON, or the raw string if it isn't JSON)
+ * @param message - The SSE record (`event` name, raw `data`, last `id`) when streamed over SSE
  */
-export type EventAdapter = (rawEvent: unknown) => IStreamEvent | null
+export type EventAdapter = (rawEvent: unknown, message?: ISSEMessage) => EventAdapterResult
 
 /**
  * Options for creating streaming API handlers
@@ -41,6 +51,10 @@ export interface IOpenAIStreamChunk {
         delta?: {
             role?: string
             content?: string | null
+            /** Thinking of reasoning models on OpenAI-compatible APIs (e.g. DeepSeek, vLLM) */
+            reasoning_content?: string | null
+            /** Thinking of reasoning models on OpenRouter */
+            reasoning?: string | null
             tool_calls?: Array<{
                 index?: number
                 id?: string
@@ -60,6 +74,17 @@ export interface IOpenAIStreamChunk {
     }
 }
 
+/**
+ * Raw OpenAI Responses API event streaming a reasoning summary. Other
+ * Responses API events are not handled by the OpenAI adapters.
+ */
+export interface IOpenAIReasoningSummaryEvent {
+    type: 'response.reasoning_summary_text.delta'
+    item_id?: string
+    summary_index?: number
+    delta: string
+}
+
 /**
  * Raw Anthropic streaming event format
  */
@@ -93,15 +118,31 @@ export interface IAnthropicStreamEvent {
     delta?: {
         type?: string
         text?: string
+        /** Extended thinking, on `thinking_delta` */
+        thinking?: string
         partial_json?: string
         stop_reason?: string
     }
+    /** Running output token count, on `message_delta` */
+    usage?: { input_tokens?: number; output_tokens?: number }
     error?: {
         type?: string
         message?: string
     }
 }
 
+/**
+ * Safety rating of a Gemini candidate or prompt
+ */
+export interface IGeminiSafetyRating {
+    /** e.g. `'HARM_CATEGORY_HARASSMENT'` */
+    category?: string
+    /** `'NEGLIGIBLE'`, `'LOW'`, `'MEDIUM'` or `'HIGH'` */
+    probability?: string
+    /** Whether this category blocked the content */
+    blocked?: boolean
+}
+
 /**
  * Raw Google Gemini streaming chunk format
  */
@@ -110,11 +151,15 @@ export interface IGeminiStreamChunk {
         content?: {
             parts?: Array<{
                 text?: string
+                /** Marks `text` as a thought summary rather than answer text */
+                thought?: boolean
                 functionCall?: {
+                    id?: string
                     name?: string
                     args?: Record<string, unknown>
                 }
                 functionResponse?: {
+                    id?: string
                     name?: string
                     response?: Record<string, unknown>
                 }
@@ -122,11 +167,13 @@ export interface IGeminiStreamChunk {
             role?: string
         }
         finishReason?: string
-        safetyRatings?: Array<{
-            category?: string
-            probability?: string
-        }>
+        safetyRatings?: IGeminiSafetyRating[]
     }>
+    /** Set instead of candidates when the prompt itself was blocked */
+    promptFeedback?: {
+        blockReason?: string
+        safetyRatings?: IGeminiSafetyRating[]
+    }
     usageMetadata?: {
         promptTokenCount?: number
         candidatesTokenCount?: number
@@ -1,18 +1,63 @@
 import React, { useState, useEffect, useRef } from 'react'
-import { ChevronDownIcon, ChevronUpIcon, DocumentIcon } from '@heroicons/react/24/outline'
+import {
+    ArrowPathIcon,
+    ChevronDownIcon,
+    ChevronLeftIcon,
+    ChevronRightIcon,
+    ChevronUpIcon,
+    DocumentIcon,
+    ExclamationTriangleIcon,
+    ForwardIcon,
+} from '@heroicons/react/24/outline'
 import type { IAssistantMessageProps } from './types'
+import type { IMessage, IMessageError } from '../../types'
 import { MessageContentRenderer } from '../MessageContentRenderer'
-import { mergeTheme } from '../../theme'
+import { SourceList } from '../Citations'
+import { useChatTheme } from '../../context'
 import { ChecksIcon } from '../../assets'
 
+// User-facing explanation for a failed response
+const describeError = (error: IMessageError): string => {
+    switch (error.name) {
+        case 'RateLimitError':
+            return 'Too many requests. Please wait a moment and try again.'
+        case 'NetworkError':
+            return 'The connection was lost. Check your network and try again.'
+        case 'HttpError':
+            return `The server returned an error${error.status ? ` (${error.status})` : ''}.`
+        case 'ParseError':
+            return 'The response could not be read.'
+        default:
+            return error.message || 'Something went wrong.'
+    }
+}
+
+// User-facing warning for an answer the backend cut short
+const describeCutOff = (message: IMessage): string | null => {
+    switch (message.stopReason) {
+        case 'length':
+            return 'The answer was cut off because it reached the maximum length.'
+        case 'content_filter':
+            return message.blockedCategories?.length
+                ? `The answer was blocked by safety filters (${message.blockedCategories.join(', ')}).`
+                : 'The answer was blocked by safety filters.'
+        default:
+            return null
+    }
+}
+
 export const AssistantMessage: React.FC<IAssistantMessageProps> = ({
     message,
     isStreaming = false,
     isLatestMessage: isLatestMessageProp,
     messages,
+    onRetry,
+    onRegenerate,
+    onSelectVersion,
+    onContinue,
     theme,
 }) => {
-    const fullTheme = mergeTheme(theme)
+    const fullTheme = useChatTheme(theme)
     const colors = fullTheme.colors
     const [showPdfs, setShowPdfs] = useState(false)
 
@@ -26,8 +71,13 @@ export const AssistantMessage: React.FC<IAssistantMessageProps> = ({
     const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
     const [showBottomLoading, setShowBottomLoading] = useState(false)
 
-    // Show loading at top only for the latest message when streaming and no content yet
-    const showTopLoading = isStreaming && isLatestMessage && !message.content.trim()
+    // Show loading at top only for the latest message when streaming and no content
+    // yet; thinking streams in place of it
+    const hasReasoning = Boolean(
+        message.contentSegments?.some((segment) => segment.type === 'reasoning'),
+    )
+    const showTopLoading =
+        isStreaming && isLatestMessage && !message.content.trim() && !hasReasoning
 
     // Track when content stops updating during streaming
     useEffect(() => {
@@ -55,12 +105,7 @@ export const AssistantMessage: React.FC<IAssistantMessageProps> = ({
 
         // Set a timeout to show loading if content doesn't update for 1.5 seconds
         timeoutRef.current = setTimeout(() => {
-            // Double-check conditions before showing loading
-            const stillLatest =
-                messages && messages.length > 0 && messages[messages.length - 1].id === message.id
-            if (isStreaming && stillLatest && message.content.trim()) {
-                setShowBottomLoading(true)
-            }
+            setShowBottomLoading(true)
         }, 1500) // 1.5 seconds of no updates
 
         return () => {
@@ -69,7 +114,25 @@ export const AssistantMessage: React.FC<IAssistantMessageProps> = ({
                 timeoutRef.current = null
             }
         }
-    }, [message.content, message.id, isStreaming, isLatestMessage, messages])
+    }, [message.content, isStreaming, isLatestMessage])
+
+    // Version switcher for regenerated answers, and the Regenerate action
+    const versionCount = message.versions?.length ?? 0
+    const versionIndex = message.versionIndex ?? 0
+    const showVersions = Boolean(onSelectVersion) && versionCount > 1
+    const isLastVersion = versionIndex === versionCount - 1
+    const showVersion = (index: number) => onSelectVersion?.(message.id, index)
+    const canRegenerate = Boolean(onRegenerate) && !isStreaming && message.status !== 'error'
+    const hasContent = Boolean(message.content.trim())
+
+    // A stopped answer, and the Continue action for one cut short
+    const isStopped = message.stopReason === 'user_stopped' && !isStreaming
+    const cutOffWarning = isStreaming ? null : describeCutOff(message)
+    const canContinue =
+        Boolean(onContinue) &&
+        isLatestMessage &&
+        !isStreaming &&
+        (message.stopReason === 'user_stopped' || message.stopReason === 'length')
 
     // Handle assistantMessageBg - if it's a Tailwind class, use it; otherwise use as style
     const assistantBgStyle = colors.assistantMessageBg?.startsWith('bg-')
@@ -106,7 +169,46 @@ export const AssistantMessage: React.FC<IAssistantMessageProps> = ({
                     </div>
                 ) : (
                     <>
-                        <MessageContentRenderer message={message} theme={theme} />
+                        <MessageContentRenderer
+                            message={message}
+                            isStreaming={isStreaming && isLatestMessage}
+                            theme={theme}
+                        />
+                        {message.citations && (
+                            <SourceList citations={message.citations} theme={theme} />
+                        )}
+                        {/* Inline error for a failed response */}
+                        {message.status === 'error' && message.error && (
+                            <div
+                                role='alert'
+                                className='flex items-start gap-2 mt-2 px-3 py-2 rounded-lg border text-sm'
+                                style={{ borderColor: colors.error, color: colors.error }}
+                            >
+                                <ExclamationTriangleIcon className='w-4 h-4 mt-0.5 shrink-0' />
+                                <span className='flex-1'>{describeError(message.error)}</span>
+                                {onRetry && !isStreaming && (
+                                    <button
+                                        type='button'
+                                        onClick={() => onRetry(message.id)}
+                                        className='flex items-center gap-1 font-medium shrink-0 hover:underline'
+                                    >
+                                        <ArrowPathIcon className='w-4 h-4' />
+                                        Retry
+                                    </button>
+                                )}
+                            </div>
+                        )}
+                        {/* Warning for an answer cut off by the token limit or safety filters */}
+                        {cutOffWarning && (
+                            <div
+                                role='status'
+                                className='flex items-start gap-2 mt-2 px-3 py-2 rounded-lg border text-sm'
+                                style={{ borderColor: colors.warning, color: colors.warning }}
+                            >
+                                <ExclamationTriangleIcon className='w-4 h-4 mt-0.5 shrink-0' />
+                                <span className='flex-1'>{cutOffWarning}</span>
+                            </div>
+                        )}
                         {/* Loading dots at bottom when streaming with existing content */}
                         {showBottomLoading && (
                             <div className='flex items-center gap-1.5 py-2 mt-2'>
@@ -124,23 +226,85 @@ export const AssistantMessage: React.FC<IAssistantMessageProps> = ({
                                 ></div>
                             </div>
                         )}
-                        {/* Timestamp and check icon */}
-                        {message.content.trim() && !showBottomLoading && (
-                            <div className='flex justify-end items-center gap-1 mt-2'>
-                                <div
-                                    className='text-xs'
-                                    style={{ color: colors.assistantMessageTextSecondary }}
-                                >
-                                    {message.timestamp.toLocaleTimeString('en-US', {
-                                        hour: '2-digit',
-                                        minute: '2-digit',
-                                        hour12: false,
-                                    })}
-                                </div>
-                                <ChecksIcon
-                                    className='w-3 h-3 animate-fade-in'
-                                    style={{ color: colors.assistantMessageTextSecondary }}
-                                />
+                        {/* Versions, actions, timestamp and check icon */}
+                        {(hasContent || showVersions) && !showBottomLoading && (
+                            <div
+                                className='flex items-center gap-1 mt-2 text-xs'
+                                style={{ color: colors.assistantMessageTextSecondary }}
+                            >
+                                {showVersions && (
+                                    <div
+                                        role='group'
+                                        aria-label={`Answer ${versionIndex + 1} of ${versionCount}`}
+                                        className='flex items-center gap-0.5'
+                                    >
+                                        <button
+                                            type='button'
+                                            onClick={() => showVersion(versionIndex - 1)}
+                                            disabled={isStreaming || versionIndex === 0}
+                                            aria-label='Previous answer'
+                                            className='p-0.5 rounded disabled:opacity-40'
+                                        >
+                                            <ChevronLeftIcon className='w-3.5 h-3.5' />
+                                        </button>
+                                        <span aria-hidden='true' className='tabular-nums'>
+                                            {versionIndex + 1} / {versionCount}
+                                        </span>
+                                        <button
+                                            type='button'
+                                            onClick={() => showVersion(versionIndex + 1)}
+                                            disabled={isStreaming || isLastVersion}
+                                            aria-label='Next answer'
+                                            className='p-0.5 rounded disabled:opacity-40'
+                                        >
+                                            <ChevronRightIcon className='w-3.5 h-3.5' />
+                                        </button>
+                                        {message.model && (
+                                            <span className='ml-1'>{message.model}</span>
+                                        )}
+                                    </div>
+                                )}
+                                {isStopped && (
+                                    <span
+                                        className='px-1.5 rounded border'
+                                        style={{ borderColor: colors.border }}
+                                    >
+                                        Stopped
+                                    </span>
+                                )}
+                                {canContinue && (
+                                    <button
+                                        type='button'
+                                        onClick={() => onContinue?.(message.id)}
+                                        aria-label='Continue generating'
+                                        title='Continue'
+                                        className='flex items-center gap-1 p-0.5 rounded hover:underline'
+                                    >
+                                        <ForwardIcon className='w-3.5 h-3.5' />
+                                        Continue
+                                    </button>
+                                )}
+                                {canRegenerate && (
+                                    <button
+                                        type='button'
+                                        onClick={() => onRegenerate?.(message.id)}
+                                        aria-label='Regenerate response'
+                                        title='Regenerate'
+                                        className='p-0.5 rounded'
+                                    >
+                                        <ArrowPathIcon className='w-3.5 h-3.5' />
+                                    </button>
+                                )}
+                                {hasContent && (
+                                    <div className='flex items-center gap-1 ml-auto'>
+                                        {message.timestamp.toLocaleTimeString('en-US', {
+                                            hour: '2-digit',
+                                            minute: '2-digit',
+                                            hour12: false,
+                                        })}
+                                        <ChecksIcon className='w-3 h-3 animate-fade-in' />
+                                    </div>
+                                )}
                             </div>
                         )}
                     </>
@@ -5,5 +5,9 @@ export interface IAssistantMessageProps {
     isStreaming?: boolean
     isLatestMessage?: boolean
     messages?: IMessage[] // Optional: if not provided, isLatestMessage should be set explicitly
+    onRetry?: (messageId: string) => void // Shows a Retry action on failed messages
+    onRegenerate?: (messageId: string) => void // Shows a Regenerate action
+    onSelectVersion?: (messageId: string, versionIndex: number) => void // Shows a version switcher
+    onContinue?: (messageId: string) => void // Shows a Continue action on stopped answers
     theme?: Partial<ChatTheme>
 }
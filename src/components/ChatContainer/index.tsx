@@ -1,20 +1,80 @@
-import React, { useEffect, useRef } from 'react'
+import React, {
+    forwardRef,
+    useCallback,
+    useEffect,
+    useImperativeHandle,
+    useLayoutEffect,
+    useMemo,
+    useRef,
+    useState,
+} from 'react'
+import { ArrowDownIcon } from '@heroicons/react/24/outline'
 import { Message } from '../Message'
-import type { IChatContainerProps } from './types'
-import { mergeTheme } from '../../theme'
+import type { IChatContainerHandle, IChatContainerProps } from './types'
+import { useMessageWindow } from './useMessageWindow'
+import { useAssistantIcon, useChatTheme } from '../../context'
 
-export const ChatContainer: React.FC<IChatContainerProps> = ({
+/** Conversations up to this length are always rendered in full */
+const VIRTUALIZE_THRESHOLD = 30
+
+/** Height (px) rendered above and below the viewport when virtualized */
+const OVERSCAN = 800
+
+/** Distance (px) from the top at which scrolling up loads older messages */
+const LOAD_OLDER_THRESHOLD = 200
+
+/** Distance (px) from the bottom within which the user counts as following the chat */
+const NEAR_BOTTOM_THRESHOLD = 100
+
+/** A `scrollToMessage` call, with its defaults applied */
+interface IScrollToMessageRequest {
+    messageId: string
+    behavior: ScrollBehavior
+    block: 'start' | 'center' | 'end'
+}
+
+export const ChatContainer = forwardRef<IChatContainerHandle, IChatContainerProps>(({
     messages,
     isStreaming = false,
     onSuggestedQuestionClick,
+    onRetryMessage,
+    onRegenerateMessage,
+    onSelectMessageVersion,
+    onContinueMessage,
+    onEditMessage,
+    onSelectMessageBranch,
+    onLoadOlder,
+    hasMore = false,
+    isLoadingOlder = false,
     theme,
     emptyStateTitle,
-}) => {
-    const fullTheme = mergeTheme(theme)
+    virtualize = true,
+    estimatedMessageHeight = 160,
+}, ref) => {
+    const fullTheme = useChatTheme(theme)
     const colors = fullTheme.colors
+    const AssistantAvatar = useAssistantIcon()
     const containerRef = useRef<HTMLDivElement>(null)
     const prevMessageCountRef = useRef(messages.length)
+    const prevLastMessageIdRef = useRef(messages[messages.length - 1]?.id)
     const isUserNearBottomRef = useRef(true)
+    const [isAwayFromBottom, setIsAwayFromBottom] = useState(false)
+    // Latest message when the user scrolled away; later ones count as unseen
+    const lastSeenMessageIdRef = useRef<string | undefined>(undefined)
+    const latestMessageIdRef = useRef(messages[messages.length - 1]?.id)
+    latestMessageIdRef.current = messages[messages.length - 1]?.id
+    const [focusedMessageId, setFocusedMessageId] = useState<string | null>(null)
+    const isWindowed = virtualize && messages.length > VIRTUALIZE_THRESHOLD
+
+    // The answer being streamed: an earlier answer while it is regenerated,
+    // otherwise the latest message
+    const streamingIndex = useMemo(() => {
+        if (!isStreaming) return -1
+        for (let index = messages.length - 1; index >= 0; index--) {
+            if (messages[index].status === 'streaming') return index
+        }
+        return messages.length - 1
+    }, [messages, isStreaming])
 
     // Track user scroll behavior
     useEffect(() => {
@@ -23,8 +83,13 @@ export const ChatContainer: React.FC<IChatContainerProps> = ({
 
         const handleScroll = () => {
             const isAtBottom =
-                container.scrollHeight - container.scrollTop - container.clientHeight < 100
+                container.scrollHeight - container.scrollTop - container.clientHeight <
+                NEAR_BOTTOM_THRESHOLD
+            if (!isAtBottom && isUserNearBottomRef.current) {
+                lastSeenMessageIdRef.current = latestMessageIdRef.current
+            }
             isUserNearBottomRef.current = isAtBottom
+            setIsAwayFromBottom(!isAtBottom)
         }
 
         container.addEventListener('scroll', handleScroll, { passive: true })
@@ -36,10 +101,25 @@ export const ChatContainer: React.FC<IChatContainerProps> = ({
         if (!containerRef.current) return
 
         const container = containerRef.current
+        const lastMessageId = messages[messages.length - 1]?.id
         const messageCountChanged = prevMessageCountRef.current !== messages.length
+        // Older messages were prepended: the viewport stays where the user is reading
+        const isPrepend = messageCountChanged && lastMessageId === prevLastMessageIdRef.current
+
+        // A message the user just sent brings them back down; other new messages
+        // wait behind the "jump to latest" button while the user reads further up
+        const previousLastIndex = messages.findIndex(
+            (message) => message.id === prevLastMessageIdRef.current,
+        )
+        const hasNewUserMessage = messages
+            .slice(previousLastIndex + 1)
+            .some((message) => message.role === 'user')
 
-        // Only auto-scroll if user is near bottom OR if new messages were added
-        if (isUserNearBottomRef.current || messageCountChanged) {
+        // Only auto-scroll if user is near bottom OR if they sent a new message
+        if (
+            !isPrepend &&
+            (isUserNearBottomRef.current || (messageCountChanged && hasNewUserMessage))
+        ) {
             // Use requestAnimationFrame to ensure DOM has updated
             requestAnimationFrame(() => {
                 container.scrollTo({
@@ -50,64 +130,302 @@ export const ChatContainer: React.FC<IChatContainerProps> = ({
         }
 
         prevMessageCountRef.current = messages.length
+        prevLastMessageIdRef.current = lastMessageId
     }, [messages])
 
+    // Load older messages when the user scrolls up near the top
+    const autoFilledCountRef = useRef<number | null>(null)
+    useEffect(() => {
+        const container = containerRef.current
+        if (!container || !onLoadOlder || !hasMore || isLoadingOlder) return
+
+        // Until the messages overflow there's nothing to scroll, so load a page.
+        // Once per message count: a page that failed or added nothing isn't
+        // requested again
+        if (container.scrollHeight <= container.clientHeight) {
+            if (autoFilledCountRef.current === messages.length) return
+            autoFilledCountRef.current = messages.length
+            onLoadOlder()
+            return
+        }
+
+        let lastScrollTop = container.scrollTop
+        const handleScroll = () => {
+            const isScrollingUp = container.scrollTop < lastScrollTop
+            lastScrollTop = container.scrollTop
+            if (isScrollingUp && container.scrollTop < LOAD_OLDER_THRESHOLD) onLoadOlder()
+        }
+
+        container.addEventListener('scroll', handleScroll, { passive: true })
+        return () => container.removeEventListener('scroll', handleScroll)
+    }, [onLoadOlder, hasMore, isLoadingOlder, messages.length])
+
+    // Keep sticking to the bottom while rendered messages grow (e.g. images loading)
+    const handleRowsResize = useCallback(() => {
+        const container = containerRef.current
+        if (container && isUserNearBottomRef.current) {
+            container.scrollTop = container.scrollHeight
+        }
+    }, [])
+
+    // The latest and the focused message stay rendered wherever the user scrolls
+    const focusedIndex = focusedMessageId
+        ? messages.findIndex((message) => message.id === focusedMessageId)
+        : -1
+    // The same array while the ids don't change, so the window's layout effects don't
+    // run for every streamed token
+    const messageIdList = messages.map((message) => message.id).join('\n')
+    const messageIds = useMemo(
+        () => (messageIdList ? messageIdList.split('\n') : []),
+        [messageIdList],
+    )
+    const { indices, offsets, getRowTop, measureRef } = useMessageWindow({
+        keys: messageIds,
+        containerRef,
+        enabled: isWindowed,
+        estimatedRowHeight: estimatedMessageHeight,
+        overscan: OVERSCAN,
+        pinnedIndices: [messages.length - 1, focusedIndex],
+        onRowsResize: handleRowsResize,
+    })
+
+    const scrollToBottom = useCallback(
+        ({ behavior = 'smooth' }: { behavior?: ScrollBehavior } = {}) => {
+            const container = containerRef.current
+            container?.scrollTo({ top: container.scrollHeight, behavior })
+        },
+        [],
+    )
+
+    // Scrolls so a row with the given top and height is aligned as `block` asks
+    const scrollToRow = useCallback(
+        (top: number, height: number, { behavior, block }: IScrollToMessageRequest) => {
+            const container = containerRef.current
+            if (!container) return
+            const visibleHeight = container.clientHeight
+            const target =
+                block === 'start'
+                    ? top
+                    : block === 'end'
+                        ? top + height - visibleHeight
+                        : top - (visibleHeight - height) / 2
+            container.scrollTo({ top: target, behavior })
+        },
+        [],
+    )
+
+    // A message scrolled to before it was rendered: its position was estimated, so
+    // it is aligned again once its row renders on the way there
+    const pendingScrollRef = useRef<IScrollToMessageRequest | null>(null)
+    useLayoutEffect(() => {
+        const container = containerRef.current
+        const pending = pendingScrollRef.current
+        if (!container || !pending) return
+        if (!messages.some((message) => message.id === pending.messageId)) {
+            pendingScrollRef.current = null
+            return
+        }
+
+        const row = Array.from(container.querySelectorAll<HTMLElement>('[data-row-key]')).find(
+            (element) => element.dataset.rowKey === pending.messageId,
+        )
+        if (!row) return
+        pendingScrollRef.current = null
+        const rect = row.getBoundingClientRect()
+        const top = rect.top - container.getBoundingClientRect().top + container.scrollTop
+        scrollToRow(top, rect.height, pending)
+    })
+
+    useImperativeHandle(
+        ref,
+        () => ({
+            scrollToBottom,
+            scrollToMessage: (messageId, { behavior = 'smooth', block = 'start' } = {}) => {
+                const index = messages.findIndex((message) => message.id === messageId)
+                const top = index >= 0 ? getRowTop(index) : null
+                if (top === null) return
+
+                const request = { messageId, behavior, block }
+                pendingScrollRef.current = indices.includes(index) ? null : request
+                scrollToRow(top, offsets[index + 1] - offsets[index], request)
+            },
+        }),
+        [messages, indices, offsets, getRowTop, scrollToBottom, scrollToRow],
+    )
+
+    // Messages added since the user scrolled away from the bottom
+    const lastSeenIndex = messages.findIndex(
+        (message) => message.id === lastSeenMessageIdRef.current,
+    )
+    const unseenCount =
+        isAwayFromBottom && lastSeenIndex >= 0 ? messages.length - 1 - lastSeenIndex : 0
+    const jumpStatus =
+        unseenCount > 0
+            ? `${unseenCount} new ${unseenCount === 1 ? 'message' : 'messages'}`
+            : isStreaming
+                ? 'Answer still streaming'
+                : ''
+
+    const handleJumpToLatest = () => {
+        scrollToBottom()
+        // The button disappears once at the bottom; keep keyboard focus in the chat
+        containerRef.current?.focus({ preventScroll: true })
+    }
+
+    // Messages that were scrolled out and back in shouldn't replay their entrance animation
+    const renderedIdsRef = useRef(new Set<string>())
+    const evictedIdsRef = useRef(new Set<string>())
+    useEffect(() => {
+        const rendered = new Set(indices.map((index) => messages[index].id))
+        renderedIdsRef.current.forEach((id) => {
+            if (!rendered.has(id)) evictedIdsRef.current.add(id)
+        })
+        renderedIdsRef.current = rendered
+    })
+
+    const handleRowBlur = (event: React.FocusEvent<HTMLDivElement>) => {
+        if (!event.currentTarget.contains(event.relatedTarget)) setFocusedMessageId(null)
+    }
+
+    // Spacers stand in for the messages between rendered rows
+    const renderSpacer = (from: number, to: number) => {
+        const height = offsets[to] - offsets[from]
+        if (height <= 0) return null
+        return <div key={`spacer-${from}`} aria-hidden='true' style={{ height }} />
+    }
+
     return (
-        <div
-            ref={containerRef}
-            role='log'
-            aria-live='polite'
-            aria-label='Chat conversation'
-            aria-relevant='additions'
-            className='h-full overflow-y-auto px-2 md:px-4 pt-2 md:pt-4 scrollbar-thin'
-            style={
+        <div className='relative h-full'>
+            <div
+                ref={containerRef}
+                role='log'
+                aria-live='polite'
+                aria-label='Chat conversation'
+                aria-relevant='additions'
+                className='h-full overflow-y-auto px-2 md:px-4 pt-2 md:pt-4 scrollbar-thin'
+                style={
                 {
                     paddingBottom: 'calc(140px + env(safe-area-inset-bottom, 0px))',
                     WebkitOverflowScrolling: 'touch',
                     overscrollBehavior: 'contain',
+                    // While windowed, useMessageWindow corrects the scroll position by hand;
+                    // otherwise the browser's scroll anchoring keeps it
+                    overflowAnchor: isWindowed ? 'none' : undefined,
                     '--scrollbar-thumb': colors.scrollbarThumb,
                 } as React.CSSProperties & { '--scrollbar-thumb': string }
-            }
-            tabIndex={0}
-        >
-            {messages.length === 0 ? (
-                <div
-                    className='h-full flex items-center justify-center text-center'
-                    style={{ color: colors.textTertiary }}
-                    role='status'
-                    aria-label='Empty chat state'
-                >
-                    <div>
-                        <p className='text-lg' style={{ color: colors.textTertiary }}>
-                            {emptyStateTitle ||
+                }
+                tabIndex={0}
+            >
+                {isLoadingOlder && (
+                // Zero-height and sticky, so showing it doesn't move the messages
+                    <div className='sticky top-0 h-0 flex justify-center z-10'>
+                        <span
+                            role='status'
+                            className='mt-1 px-3 py-1 rounded-full text-xs shadow-md'
+                            style={{
+                                backgroundColor: colors.backgroundSecondary,
+                                color: colors.textSecondary,
+                            }}
+                        >
+                        Loading earlier messages…
+                        </span>
+                    </div>
+                )}
+                {messages.length === 0 && !isLoadingOlder ? (
+                    <div
+                        className='h-full flex items-center justify-center text-center'
+                        style={{ color: colors.textTertiary }}
+                        role='status'
+                        aria-label='Empty chat state'
+                    >
+                        <div className='flex flex-col items-center gap-3'>
+                            <AssistantAvatar className='w-12 h-12' aria-hidden='true' />
+                            <p className='text-lg' style={{ color: colors.textTertiary }}>
+                                {emptyStateTitle ||
                                 'Start a conversation. Type a message below to begin'}
-                        </p>
+                            </p>
+                        </div>
                     </div>
-                </div>
-            ) : (
-                <div role='list' aria-label='Messages'>
-                    {messages.map((message, index) => {
-                        const nextMessage = messages[index + 1]
-                        const hasReply =
+                ) : (
+                    <div role='list' aria-label='Messages'>
+                        {indices.map((index, i) => {
+                            const message = messages[index]
+                            const nextMessage = messages[index + 1]
+                            const hasReply =
                             message.role === 'user' && nextMessage?.role === 'assistant'
-                        const isLatest = index === messages.length - 1
-                        return (
-                            <Message
-                                key={message.id}
-                                message={message}
-                                hasReply={hasReply}
-                                isLatest={isLatest}
-                                isStreaming={isStreaming}
-                                messages={messages}
-                                onSuggestedQuestionClick={onSuggestedQuestionClick}
-                                theme={theme}
-                            />
-                        )
-                    })}
-                </div>
+                            const isLatest = index === messages.length - 1
+                            const gapStart = i === 0 ? 0 : indices[i - 1] + 1
+                            return (
+                                <React.Fragment key={message.id}>
+                                    {renderSpacer(gapStart, index)}
+                                    <div
+                                        ref={measureRef(message.id)}
+                                        data-row-key={message.id}
+                                        className={`flow-root ${
+                                            evictedIdsRef.current.has(message.id) ? 'chat-row-restored' : ''
+                                        }`}
+                                        onFocus={() => setFocusedMessageId(message.id)}
+                                        onBlur={handleRowBlur}
+                                    >
+                                        <Message
+                                            message={message}
+                                            hasReply={hasReply}
+                                            isLatest={isLatest}
+                                            isStreaming={index === streamingIndex}
+                                            onSuggestedQuestionClick={
+                                                isLatest ? onSuggestedQuestionClick : undefined
+                                            }
+                                            onSelectVersion={onSelectMessageVersion}
+                                            onContinue={isLatest ? onContinueMessage : undefined}
+                                            // The conversation can't branch while it streams
+                                            onRetry={isStreaming ? undefined : onRetryMessage}
+                                            onRegenerate={
+                                                isStreaming ? undefined : onRegenerateMessage
+                                            }
+                                            onEdit={isStreaming ? undefined : onEditMessage}
+                                            onSelectBranch={
+                                                isStreaming ? undefined : onSelectMessageBranch
+                                            }
+                                            theme={theme}
+                                            setSize={isWindowed ? messages.length : undefined}
+                                            position={isWindowed ? index + 1 : undefined}
+                                        />
+                                    </div>
+                                </React.Fragment>
+                            )
+                        })}
+                        {indices.length > 0 &&
+                            renderSpacer(indices[indices.length - 1] + 1, messages.length)}
+                    </div>
+                )}
+            </div>
+            {isAwayFromBottom && messages.length > 0 && (
+                <button
+                    type='button'
+                    onClick={handleJumpToLatest}
+                    className='absolute left-1/2 -translate-x-1/2 z-20 flex items-center gap-2 px-3 py-1.5 rounded-full text-xs shadow-md animate-fade-in-up'
+                    style={{
+                        bottom: 'calc(148px + env(safe-area-inset-bottom, 0px))',
+                        backgroundColor: colors.backgroundTertiary,
+                        border: `1px solid ${colors.border}`,
+                        color: colors.text,
+                    }}
+                    aria-label={jumpStatus ? `Jump to latest: ${jumpStatus}` : 'Jump to latest'}
+                >
+                    <ArrowDownIcon className='w-4 h-4' aria-hidden='true' />
+                    {unseenCount === 0 && isStreaming && (
+                        <span
+                            className='w-1.5 h-1.5 rounded-full bg-current animate-pulse'
+                            aria-hidden='true'
+                        />
+                    )}
+                    {jumpStatus && <span>{jumpStatus}</span>}
+                </button>
             )}
         </div>
     )
-}
+})
+
+ChatContainer.displayName = 'ChatContainer'
 
-export type { IChatContainerProps } from './types'
+export type { IChatContainerHandle, IChatContainerProps } from './types'
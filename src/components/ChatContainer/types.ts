@@ -4,6 +4,58 @@ export interface IChatContainerProps {
     messages: IMessage[]
     isStreaming?: boolean
     onSuggestedQuestionClick?: (question: string) => void
+    onRetryMessage?: (messageId: string) => void
+    /** Called to regenerate an answer; shows a Regenerate action on every answer */
+    onRegenerateMessage?: (messageId: string) => void
+    /** Called to show another answer of a regenerated message; shows a "2 / 3" switcher */
+    onSelectMessageVersion?: (messageId: string, versionIndex: number) => void
+    /** Called to continue a stopped answer; shows a Continue action on the latest one */
+    onContinueMessage?: (messageId: string) => void
+    /** Called with the new text of an edited user message; shows an Edit action on them */
+    onEditMessage?: (messageId: string, content: string) => void
+    /** Called to show another branch of an edited message; shows a "2 / 3" switcher */
+    onSelectMessageBranch?: (messageId: string, branchIndex: number) => void
+    /** Called when the user scrolls near the top while `hasMore` is set */
+    onLoadOlder?: () => void
+    /** Whether there are older messages to load with `onLoadOlder` */
+    hasMore?: boolean
+    /** Whether older messages are loading; shows an indicator at the top */
+    isLoadingOlder?: boolean
     theme?: Partial<ChatTheme>
     emptyStateTitle?: string
+    /**
+     * Render only the messages near the viewport in long conversations.
+     * Messages are measured as they render, so they can have any height.
+     * @default true
+     */
+    virtualize?: boolean
+    /**
+     * Height (px) assumed for messages that haven't been rendered yet
+     * @default 160
+     */
+    estimatedMessageHeight?: number
+}
+
+/**
+ * Imperative API of `ChatContainer`, available through its `ref`.
+ *
+ * @example
+ * ```tsx
+ * const chatRef = useRef<IChatContainerHandle>(null)
+ * <ChatContainer ref={chatRef} messages={messages} />
+ * chatRef.current?.scrollToMessage(messageId, { block: 'center' })
+ * ```
+ */
+export interface IChatContainerHandle {
+    /**
+     * Scrolls to a message. In a virtualized list a message that isn't
+     * rendered is scrolled to at its estimated position, then aligned again
+     * once its row renders.
+     */
+    scrollToMessage: (
+        messageId: string,
+        options?: { behavior?: ScrollBehavior; block?: 'start' | 'center' | 'end' },
+    ) => void
+    /** Scrolls to the latest message */
+    scrollToBottom: (options?: { behavior?: ScrollBehavior }) => void
 }
@@ -0,0 +1,266 @@
+import { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react'
+import type { RefObject } from 'react'
+
+interface IMessageWindowOptions {
+    /**
+     * Stable key of every row, in order. Pass the same array while the keys
+     * don't change: the layout effects run again for a new one.
+     */
+    keys: string[]
+    /** Scroll container holding the rows */
+    containerRef: RefObject<HTMLDivElement | null>
+    /** Render only the rows near the viewport; when false every row is rendered */
+    enabled: boolean
+    /** Height assumed for rows that haven't been measured yet */
+    estimatedRowHeight: number
+    /** Extra height rendered above and below the viewport */
+    overscan: number
+    /** Rows rendered regardless of scroll position (e.g. the focused and latest rows) */
+    pinnedIndices: number[]
+    /** Called after rendered rows changed height */
+    onRowsResize?: () => void
+}
+
+interface IMessageWindow {
+    /** Indices of the rows to render, ascending */
+    indices: number[]
+    /** Top offset of every row, plus the total height as the last entry */
+    offsets: number[]
+    /** Top of the row at `index` within the scroll content, whether rendered or not */
+    getRowTop: (index: number) => number | null
+    /** Ref callback for the rendered row with the given key, which must carry `data-row-key` */
+    measureRef: (key: string) => (element: HTMLElement | null) => void
+}
+
+/**
+ * Whether the browser keeps the viewport on the same content when content
+ * above it changes (CSS `overflow-anchor`)
+ */
+const supportsScrollAnchoring = (): boolean =>
+    typeof CSS !== 'undefined' && CSS.supports('overflow-anchor', 'auto')
+
+/**
+ * Windowed rendering for a list of variable-height rows: only rows within
+ * `overscan` of the viewport are rendered, and the rest are replaced by
+ * spacers sized from measured (or estimated) heights.
+ *
+ * Rendered rows are measured with a ResizeObserver. When a row above the
+ * viewport changes height, or rows are prepended, the scroll position is
+ * shifted by the same amount so the visible content stays put. The scroll
+ * container must set `overflow-anchor: none` while windowed, so the browser
+ * doesn't shift it too. When not windowed, only prepends are corrected, and
+ * only in browsers without scroll anchoring.
+ */
+export const useMessageWindow = ({
+    keys,
+    containerRef,
+    enabled,
+    estimatedRowHeight,
+    overscan,
+    pinnedIndices,
+    onRowsResize,
+}: IMessageWindowOptions): IMessageWindow => {
+    const heightsRef = useRef(new Map<string, number>())
+    const observerRef = useRef<ResizeObserver | null>(null)
+    const rowElementsRef = useRef(new Map<string, HTMLElement>())
+    const rowRefsRef = useRef(new Map<string, (element: HTMLElement | null) => void>())
+    const onRowsResizeRef = useRef(onRowsResize)
+    onRowsResizeRef.current = onRowsResize
+    const [, setMeasureVersion] = useState(0)
+    const [viewport, setViewport] = useState({ scrollTop: 0, height: 0 })
+
+    const offsets = [0]
+    keys.forEach((key, index) => {
+        offsets.push(offsets[index] + (heightsRef.current.get(key) ?? estimatedRowHeight))
+    })
+    const layoutRef = useRef({ keys, offsets })
+    layoutRef.current = { keys, offsets }
+
+    // Follow the scroll position and viewport size, at most once per frame
+    useEffect(() => {
+        const container = containerRef.current
+        if (!container || !enabled) return
+
+        let frame = 0
+        const update = () => {
+            frame = 0
+            setViewport({ scrollTop: container.scrollTop, height: container.clientHeight })
+        }
+        const scheduleUpdate = () => {
+            if (!frame) frame = requestAnimationFrame(update)
+        }
+
+        update()
+        container.addEventListener('scroll', scheduleUpdate, { passive: true })
+        const resizeObserver = new ResizeObserver(scheduleUpdate)
+        resizeObserver.observe(container)
+        return () => {
+            cancelAnimationFrame(frame)
+            container.removeEventListener('scroll', scheduleUpdate)
+            resizeObserver.disconnect()
+        }
+    }, [containerRef, enabled])
+
+    const optionsRef = useRef({ enabled, estimatedRowHeight })
+    optionsRef.current = { enabled, estimatedRowHeight }
+
+    // Top of a row within the scroll content, located from the first rendered row:
+    // the rows in between are either rendered (and measured) or laid out by spacers
+    // of the same heights
+    const getRowTop = useCallback(
+        (index: number): number | null => {
+            const container = containerRef.current
+            const reference = container?.querySelector<HTMLElement>('[data-row-key]')
+            const { keys: rowKeys } = layoutRef.current
+            const referenceIndex = rowKeys.indexOf(reference?.dataset.rowKey ?? '')
+            if (!container || !reference || referenceIndex < 0) return null
+
+            const referenceTop =
+                reference.getBoundingClientRect().top -
+                container.getBoundingClientRect().top +
+                container.scrollTop
+            const [from, to] = [index, referenceIndex].sort((a, b) => a - b)
+            let distance = 0
+            for (let i = from; i < to; i++) {
+                distance +=
+                    heightsRef.current.get(rowKeys[i]) ?? optionsRef.current.estimatedRowHeight
+            }
+            return index > referenceIndex ? referenceTop + distance : referenceTop - distance
+        },
+        [containerRef],
+    )
+
+    // Keep the viewport on the same content when rows are prepended (older history).
+    // A list rendered in full is left to the browser's scroll anchoring where it exists;
+    // correcting it here as well would shift it twice.
+    const firstRowTopRef = useRef<{ key: string; top: number } | null>(null)
+    useLayoutEffect(() => {
+        const container = containerRef.current
+        const previous = firstRowTopRef.current
+        const anchorIndex = previous ? keys.indexOf(previous.key) : -1
+        const isAnchoredByBrowser = !enabled && supportsScrollAnchoring()
+        if (container && previous && anchorIndex > 0 && !isAnchoredByBrowser) {
+            // Measure the rows that just mounted, so the observer doesn't shift for them again
+            container.querySelectorAll<HTMLElement>('[data-row-key]').forEach((row) => {
+                const key = row.dataset.rowKey ?? ''
+                if (!heightsRef.current.has(key)) {
+                    heightsRef.current.set(key, row.getBoundingClientRect().height)
+                }
+            })
+
+            const anchorTop = getRowTop(anchorIndex)
+            if (anchorTop !== null) container.scrollTop += anchorTop - previous.top
+            if (enabled) {
+                setViewport({ scrollTop: container.scrollTop, height: container.clientHeight })
+                setMeasureVersion((version) => version + 1)
+            }
+        }
+
+        const firstRowTop = keys.length > 0 ? getRowTop(0) : null
+        firstRowTopRef.current = firstRowTop === null ? null : { key: keys[0], top: firstRowTop }
+    }, [containerRef, keys, enabled, getRowTop])
+
+    // Measure rendered rows. The observer is created on first use; rows are
+    // unobserved when they unmount, and the observer is disconnected with the list.
+    const handleRowResize = useCallback(
+        (entries: ResizeObserverEntry[]) => {
+            const container = containerRef.current
+            const { keys: rowKeys, offsets: rowOffsets } = layoutRef.current
+            const { enabled: isWindowed, estimatedRowHeight: estimate } = optionsRef.current
+            let changed = false
+            let shiftAbove = 0
+
+            entries.forEach((entry) => {
+                const key = (entry.target as HTMLElement).dataset.rowKey
+                if (key === undefined) return
+                const height = entry.borderBoxSize?.[0]?.blockSize ?? entry.contentRect.height
+                const previous = heightsRef.current.get(key)
+                if (previous === height) return
+
+                heightsRef.current.set(key, height)
+                changed = true
+
+                // Rows entirely above the viewport push the visible content down
+                const index = rowKeys.indexOf(key)
+                const oldHeight = previous ?? estimate
+                const scrollTop = container?.scrollTop ?? 0
+                if (index >= 0 && rowOffsets[index] + oldHeight <= scrollTop) {
+                    shiftAbove += height - oldHeight
+                }
+            })
+
+            if (!changed) return
+            if (isWindowed) {
+                if (container && shiftAbove) container.scrollTop += shiftAbove
+                setMeasureVersion((version) => version + 1)
+            }
+            onRowsResizeRef.current?.()
+        },
+        [containerRef],
+    )
+
+    // One stable ref callback per row, so rows aren't re-observed on every render
+    const measureRef = useCallback(
+        (key: string) => {
+            const existing = rowRefsRef.current.get(key)
+            if (existing) return existing
+
+            const rowRef = (element: HTMLElement | null) => {
+                if (typeof ResizeObserver === 'undefined') return
+                observerRef.current ??= new ResizeObserver(handleRowResize)
+                const previous = rowElementsRef.current.get(key)
+                if (previous) observerRef.current.unobserve(previous)
+
+                if (element) {
+                    observerRef.current.observe(element)
+                    rowElementsRef.current.set(key, element)
+                } else {
+                    rowElementsRef.current.delete(key)
+                    rowRefsRef.current.delete(key)
+                }
+            }
+            rowRefsRef.current.set(key, rowRef)
+            return rowRef
+        },
+        [handleRowResize],
+    )
+
+    // Stop observing when the list unmounts. A remount (e.g. in StrictMode) observes
+    // the rows that are still rendered again.
+    useEffect(() => {
+        if (!observerRef.current && rowElementsRef.current.size > 0) {
+            const observer = new ResizeObserver(handleRowResize)
+            rowElementsRef.current.forEach((element) => observer.observe(element))
+            observerRef.current = observer
+        }
+        return () => {
+            observerRef.current?.disconnect()
+            observerRef.current = null
+        }
+    }, [handleRowResize])
+
+    // Forget the heights and ref callbacks of rows that left the list
+    useEffect(() => {
+        const currentKeys = new Set(keys)
+        heightsRef.current.forEach((_, key) => {
+            if (!currentKeys.has(key)) heightsRef.current.delete(key)
+        })
+        rowRefsRef.current.forEach((_, key) => {
+            if (!currentKeys.has(key)) rowRefsRef.current.delete(key)
+        })
+    }, [keys])
+
+    if (!enabled) {
+        return { indices: keys.map((_, index) => index), offsets, getRowTop, measureRef }
+    }
+
+    // Rows overlapping the viewport plus overscan, and the pinned rows
+    const top = viewport.scrollTop - overscan
+    const bottom = viewport.scrollTop + viewport.height + overscan
+    const visible = new Set(pinnedIndices.filter((index) => index >= 0 && index < keys.length))
+    keys.forEach((_, index) => {
+        if (offsets[index + 1] > top && offsets[index] < bottom) visible.add(index)
+    })
+
+    return { indices: [...visible].sort((a, b) => a - b), offsets, getRowTop, measureRef }
+}
@@ -3,8 +3,8 @@ import type { KeyboardEvent } from 'react'
 import { XMarkIcon, DocumentPlusIcon, ChatBubbleLeftRightIcon } from '@heroicons/react/24/solid'
 import { ArrowUpIcon, DocumentIcon } from '@heroicons/react/24/outline'
 import type { IPdfFile, ChatTheme } from '../../types'
-import { mergeTheme } from '../../theme'
-import { K8Icon, StopCircleIcon, MicIcon } from '../../assets'
+import { useAssistantIcon, useChatConfig, useChatTheme } from '../../context'
+import { StopCircleIcon, MicIcon } from '../../assets'
 import { ModelSelector } from '../ui/ModelSelector'
 import type { IModelOption } from '../../hooks/useModelSelection'
 import { useChatInputHandler } from '../../hooks/useChatInputHandler'
@@ -38,8 +38,12 @@ export const ChatInput: React.FC<IChatInputProps> = ({
     selectedModel,
     onModelChange,
 }: IChatInputProps) => {
-    const fullTheme = mergeTheme(theme)
+    const fullTheme = useChatTheme(theme)
     const colors = fullTheme.colors
+    const { config } = useChatConfig()
+    const AssistantMenuIcon = useAssistantIcon()
+    const StopIcon = config.icons.stop ?? StopCircleIcon
+    const RecordIcon = config.icons.mic ?? MicIcon
     const [uploading, setUploading] = useState(false)
     const [uploadProgress, setUploadProgress] = useState(0)
     const [currentFileName, setCurrentFileName] = useState('')
@@ -325,7 +329,7 @@ export const ChatInput: React.FC<IChatInputProps> = ({
                         aria-haspopup='menu'
                         type='button'
                     >
-                        <K8Icon className='w-full h-full' aria-hidden='true' />
+                        <AssistantMenuIcon className='w-full h-full' aria-hidden='true' />
                     </button>
                     {showMenu && (
                         <div
@@ -463,7 +467,7 @@ export const ChatInput: React.FC<IChatInputProps> = ({
                             aria-label='Stop generating response'
                             type='button'
                         >
-                            <StopCircleIcon className='w-6 h-6' aria-hidden='true' />
+                            <StopIcon className='w-6 h-6' aria-hidden='true' />
                         </button>
                     </>
                 ) : (
@@ -498,7 +502,7 @@ export const ChatInput: React.FC<IChatInputProps> = ({
                                 aria-hidden='true'
                             />
                         ) : (
-                            <MicIcon className='w-6 h-6' aria-hidden='true' />
+                            <RecordIcon className='w-6 h-6' aria-hidden='true' />
                         )}
                     </button>
                 )}
@@ -6,7 +6,7 @@ import {
 } from '@heroicons/react/24/outline'
 import type { IChatInputMinimalProps } from './types'
 import { useChatInputHandler } from '../../hooks/useChatInputHandler'
-import { mergeTheme } from '../../theme'
+import { useChatConfig, useChatTheme } from '../../context'
 
 export type { IChatInputMinimalProps }
 
@@ -39,8 +39,11 @@ export const ChatInputMinimal = ({
         acceptedFileTypes,
         onUploadFile,
     })
-    const fullTheme = mergeTheme(theme)
+    const fullTheme = useChatTheme(theme)
     const colors = fullTheme.colors
+    const { config } = useChatConfig()
+    const StopIcon = config.icons.stop ?? StopCircleIcon
+    const RecordIcon = config.icons.mic ?? MicrophoneIcon
 
     const handleButtonHover = (e: React.MouseEvent<HTMLButtonElement>) => {
         e.currentTarget.style.backgroundColor = colors.buttonSecondary!
@@ -116,9 +119,9 @@ export const ChatInputMinimal = ({
                         disabled={isStreaming}
                     >
                         {isRecording ? (
-                            <StopCircleIcon className='w-6 h-6' />
+                            <StopIcon className='w-6 h-6' />
                         ) : (
-                            <MicrophoneIcon className='w-6 h-6' />
+                            <RecordIcon className='w-6 h-6' />
                         )}
                     </button>
                 </div>
@@ -133,7 +136,7 @@ export const ChatInputMinimal = ({
                     disabled={isRecording}
                 >
                     {isStreaming ? (
-                        <StopCircleIcon className='w-6 h-6' />
+                        <StopIcon className='w-6 h-6' />
                     ) : (
                         <PaperAirplaneIcon className='w-6 h-6' />
                     )}
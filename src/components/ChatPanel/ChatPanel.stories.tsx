@@ -3,9 +3,12 @@ import React from 'react'
 import { ChatPanel } from './index'
 import { ChatConfigProvider } from '../../context/ChatConfigContext'
 import { useChatMessages } from '../../hooks/useChatMessages'
-import { useState, useCallback } from 'react'
+import { useState, useCallback, useEffect } from 'react'
 import type { IMessage, ChatTheme } from '../../types'
 import type { IStreamEvent, IChatConfig } from '../../context/ChatConfigContext'
+import { localStorageChatStorage } from '../../storage'
+import { useConversations } from '../../hooks/useConversations'
+import { ConversationList } from '../ConversationList'
 
 // =============================================================================
 // Mock Services for Different Backend Scenarios
@@ -322,6 +325,261 @@ function ExistingMessagesDemo() {
     )
 }
 
+// Long conversation (virtualized)
+const LONG_ANSWER = [
+    'Here is a detailed answer with several paragraphs.',
+    '- **Scheduling** places pods on nodes\n- **Services** route traffic\n- **Ingress** exposes HTTP',
+    '```yaml\napiVersion: v1\nkind: Pod\nmetadata:\n  name: web\n```',
+]
+
+const longConversation: IMessage[] = Array.from({ length: 400 }, (_, index) => ({
+    id: `long-${index}`,
+    role: index % 2 === 0 ? 'user' : 'assistant',
+    content:
+        index % 2 === 0
+            ? `Question ${index / 2 + 1}: how does this part of the cluster work?`
+            : LONG_ANSWER.slice(0, (index % 3) + 1).join('\n\n'),
+    timestamp: new Date(Date.now() - (400 - index) * 60000),
+}))
+
+function LongConversationDemo() {
+    const [messages, setMessages] = useState<IMessage[]>(longConversation)
+
+    const handleSendMessage = useCallback(async (message: string) => {
+        setMessages((prev) => [
+            ...prev,
+            { id: `user-${Date.now()}`, role: 'user', content: message, timestamp: new Date() },
+            {
+                id: `assistant-${Date.now()}`,
+                role: 'assistant',
+                content: LONG_ANSWER.join('\n\n'),
+                timestamp: new Date(),
+            },
+        ])
+    }, [])
+
+    return (
+        <div className='h-screen bg-gray-900'>
+            <ChatPanel
+                messages={messages}
+                isStreaming={false}
+                onSendMessage={handleSendMessage}
+                onStopStreaming={() => {}}
+                onClearChat={() => setMessages([])}
+            />
+        </div>
+    )
+}
+
+// History loaded page by page from a mock backend
+const HISTORY_PAGE_SIZE = 20
+
+const loadHistoryPage = async (oldest: IMessage | undefined) => {
+    await new Promise((resolve) => setTimeout(resolve, 800))
+    const end = oldest ? longConversation.findIndex((m) => m.id === oldest.id) : 400
+    const start = Math.max(0, end - HISTORY_PAGE_SIZE)
+    return { messages: longConversation.slice(start, end), hasMore: start > 0 }
+}
+
+function HistoryPagingDemo() {
+    const {
+        messages,
+        isStreaming,
+        hasMore,
+        isLoadingOlder,
+        sendMessage,
+        stopStreaming,
+        loadOlder,
+        clearChat,
+    } = useChatMessages({
+        sendMessageToApi: async (params) => {
+            await mockStandardBackend.sendMessage(
+                { user_input: params.userInput, model_name: params.modelName },
+                params.onEvent,
+                params.onComplete,
+                params.onError,
+                params.abortSignal,
+            )
+        },
+        loadOlderMessages: loadHistoryPage,
+    })
+
+    return (
+        <div className='h-screen bg-gray-900'>
+            <ChatPanel
+                messages={messages}
+                isStreaming={isStreaming}
+                onSendMessage={(message) => sendMessage(message, 'gpt-4')}
+                onStopStreaming={stopStreaming}
+                onClearChat={clearChat}
+                onLoadOlder={loadOlder}
+                hasMore={hasMore}
+                isLoadingOlder={isLoadingOlder}
+            />
+        </div>
+    )
+}
+
+// Conversation kept in localStorage across reloads
+const persistentStorage = localStorageChatStorage({ keyPrefix: 'storybook-chat:' })
+
+function PersistenceDemo() {
+    const { messages, isStreaming, isHydrated, sendMessage, stopStreaming, clearChat } =
+        useChatMessages({
+            sendMessageToApi: async (params) => {
+                await mockStandardBackend.sendMessage(
+                    { user_input: params.userInput, model_name: params.modelName },
+                    params.onEvent,
+                    params.onComplete,
+                    params.onError,
+                    params.abortSignal,
+                )
+            },
+            storage: persistentStorage,
+        })
+
+    return (
+        <div className='h-screen bg-gray-900'>
+            <ChatPanel
+                messages={messages}
+                isStreaming={isStreaming}
+                onSendMessage={(message) => sendMessage(message, 'gpt-4')}
+                onStopStreaming={stopStreaming}
+                onClearChat={clearChat}
+                emptyStateTitle={
+                    isHydrated ? 'Send a message, then reload the page' : 'Restoring…'
+                }
+            />
+        </div>
+    )
+}
+
+// Conversations kept in localStorage, with the active one in `?chat=`
+const conversationStorage = localStorageChatStorage({ keyPrefix: 'storybook-conversations:' })
+
+function ConversationsDemo() {
+    const conversations = useConversations({ storage: conversationStorage, urlParam: 'chat' })
+    const { activeConversationId, updateFromMessages } = conversations
+    const { messages, isStreaming, sendMessage, stopStreaming } = useChatMessages({
+        sendMessageToApi: async (params) => {
+            await mockStandardBackend.sendMessage(
+                { user_input: params.userInput, model_name: params.modelName },
+                params.onEvent,
+                params.onComplete,
+                params.onError,
+                params.abortSignal,
+            )
+        },
+        storage: conversationStorage,
+        conversationId: activeConversationId,
+    })
+
+    useEffect(() => {
+        updateFromMessages(activeConversationId, messages)
+    }, [activeConversationId, messages, updateFromMessages])
+
+    return (
+        <div className='h-screen bg-gray-900'>
+            <ChatPanel
+                messages={messages}
+                isStreaming={isStreaming}
+                onSendMessage={(message) => sendMessage(message, 'gpt-4')}
+                onStopStreaming={stopStreaming}
+                sidebar={
+                    <ConversationList
+                        conversations={conversations.conversations}
+                        activeConversationId={activeConversationId}
+                        onSelect={conversations.switchConversation}
+                        onCreate={() => conversations.createConversation()}
+                        onRename={conversations.renameConversation}
+                        onDelete={conversations.deleteConversation}
+                    />
+                }
+            />
+        </div>
+    )
+}
+
+// Answers regenerated with the model picked in the input
+const regenerateModels = [
+    { id: 'gpt-4', name: 'GPT-4' },
+    { id: 'claude-3', name: 'Claude 3' },
+]
+
+function RegenerateDemo() {
+    const [selectedModel, setSelectedModel] = useState('gpt-4')
+    const {
+        messages,
+        isStreaming,
+        sendMessage,
+        stopStreaming,
+        regenerate,
+        selectVersion,
+        continueGeneration,
+    } = useChatMessages({
+        sendMessageToApi: async (params) => {
+            const answer = params.continueFrom
+                ? 'and this is the rest of the answer, continued after it was stopped.'
+                : `Answer from ${params.modelName}, drawn at ${new Date().toLocaleTimeString()}, streamed slowly enough to stop it halfway.`
+            const words = answer.split(' ')
+            for (const word of words) {
+                if (params.abortSignal?.aborted) break
+                await new Promise((resolve) => setTimeout(resolve, 100))
+                params.onEvent({ type: 'llm_token', content: `${word} ` })
+            }
+            params.onComplete()
+        },
+    })
+
+    return (
+        <div className='h-screen bg-gray-900'>
+            <ChatPanel
+                messages={messages}
+                isStreaming={isStreaming}
+                onSendMessage={(message) => sendMessage(message, selectedModel)}
+                onStopStreaming={stopStreaming}
+                onRegenerateMessage={(id) => regenerate(id, { modelName: selectedModel })}
+                onSelectMessageVersion={selectVersion}
+                onContinueMessage={continueGeneration}
+                availableModels={regenerateModels}
+                selectedModel={selectedModel}
+                onModelChange={setSelectedModel}
+            />
+        </div>
+    )
+}
+
+// Edit questions and switch between the branches
+function EditDemo() {
+    const { messages, isStreaming, sendMessage, stopStreaming, editMessage, selectBranch } =
+        useChatMessages({
+            sendMessageToApi: async (params) => {
+                const earlier = params.messages.filter((message) => message.role === 'user').length
+                const words = `You asked "${params.userInput}" after ${earlier} earlier questions.`
+                    .split(' ')
+                for (const word of words) {
+                    if (params.abortSignal?.aborted) break
+                    await new Promise((resolve) => setTimeout(resolve, 100))
+                    params.onEvent({ type: 'llm_token', content: `${word} ` })
+                }
+                params.onComplete()
+            },
+        })
+
+    return (
+        <div className='h-screen bg-gray-900'>
+            <ChatPanel
+                messages={messages}
+                isStreaming={isStreaming}
+                onSendMessage={(message) => sendMessage(message, 'gpt-4')}
+                onStopStreaming={stopStreaming}
+                onEditMessage={editMessage}
+                onSelectMessageBranch={selectBranch}
+            />
+        </div>
+    )
+}
+
 // With custom icon
 function CustomIconDemo() {
     const [selectedModel] = useState('gpt-4')
@@ -556,6 +814,72 @@ export const WithExistingMessages: Story = {
     },
 }
 
+export const LongConversation: Story = {
+    render: () => <LongConversationDemo />,
+    parameters: {
+        docs: {
+            description: {
+                story: 'A 400-message conversation. Only the messages near the viewport are rendered; scroll up to render older ones.',
+            },
+        },
+    },
+}
+
+export const WithHistoryPaging: Story = {
+    render: () => <HistoryPagingDemo />,
+    parameters: {
+        docs: {
+            description: {
+                story: 'History is loaded 20 messages at a time with `loadOlderMessages`. Scroll up to load older pages; the viewport stays on the message you were reading.',
+            },
+        },
+    },
+}
+
+export const WithPersistence: Story = {
+    render: () => <PersistenceDemo />,
+    parameters: {
+        docs: {
+            description: {
+                story: 'The conversation is saved to localStorage with `localStorageChatStorage` and restored after a reload. Clear the chat to delete it.',
+            },
+        },
+    },
+}
+
+export const WithConversations: Story = {
+    render: () => <ConversationsDemo />,
+    parameters: {
+        docs: {
+            description: {
+                story: 'A `ConversationList` sidebar managed by `useConversations`. Conversations are titled after their first message, saved to localStorage, and the open one is kept in the `?chat=` query parameter.',
+            },
+        },
+    },
+}
+
+export const WithRegenerate: Story = {
+    render: () => <RegenerateDemo />,
+    parameters: {
+        docs: {
+            description: {
+                story: 'Regenerate the latest answer, optionally with another model from the selector. Earlier answers are kept as versions and can be compared with the "2 / 3" switcher. A stopped answer keeps its text, is marked as stopped and can be continued.',
+            },
+        },
+    },
+}
+
+export const WithEditing: Story = {
+    render: () => <EditDemo />,
+    parameters: {
+        docs: {
+            description: {
+                story: 'Edit an earlier question to resend it. The conversation branches at the edited question; the "2 / 3" switcher below it goes back to earlier branches.',
+            },
+        },
+    },
+}
+
 export const WithCustomIcon: Story = {
     render: () => <CustomIconDemo />,
     parameters: {
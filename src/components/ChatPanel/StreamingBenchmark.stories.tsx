@@ -0,0 +1,187 @@
+import type { Meta, StoryObj } from '@storybook/react'
+import React, { Profiler, useCallback, useMemo, useRef, useState } from 'react'
+import { ChatContainer } from '../ChatContainer'
+import { useChatMessages } from '../../hooks/useChatMessages'
+import type { IUseChatMessagesOptions } from '../../hooks/useChatMessages'
+import type { IChatTransport } from '../../transports/types'
+
+// =============================================================================
+// Benchmark Transport
+// =============================================================================
+
+const WORDS = [
+    'The',
+    ' cluster',
+    ' schedules',
+    ' pods',
+    ' across',
+    ' nodes',
+    ',',
+    ' and',
+    ' **',
+    'each',
+]
+
+/**
+ * Emits `tokenCount` tokens in bursts of `burstSize` per macrotask,
+ * simulating a model streaming far faster than the screen refreshes.
+ */
+const createBenchmarkTransport = (tokenCount: number, burstSize: number): IChatTransport => ({
+    send: async ({ onEvent, onComplete, abortSignal }) => {
+        for (let sent = 0; sent < tokenCount; sent += burstSize) {
+            if (abortSignal?.aborted) break
+            await new Promise((resolve) => setTimeout(resolve, 0))
+            for (let i = sent; i < Math.min(sent + burstSize, tokenCount); i++) {
+                // Close the bold run and start a new paragraph now and then
+                const word = i % 10 === 9 ? '** ' : WORDS[i % WORDS.length]
+                onEvent({ type: 'llm_token', content: i % 200 === 199 ? `${word}\n\n` : word })
+            }
+        }
+        onComplete()
+    },
+})
+
+interface IBenchmarkResult {
+    updateInterval: IUseChatMessagesOptions['updateInterval']
+    tokens: number
+    commits: number
+    renderMs: number
+    totalMs: number
+}
+
+interface IStreamingBenchmarkProps {
+    tokenCount: number
+    burstSize: number
+}
+
+function StreamingBenchmark({ tokenCount, burstSize }: IStreamingBenchmarkProps) {
+    const [updateInterval, setUpdateInterval] =
+        useState<IUseChatMessagesOptions['updateInterval']>('frame')
+    const [results, setResults] = useState<IBenchmarkResult[]>([])
+    const commitsRef = useRef(0)
+    const renderMsRef = useRef(0)
+
+    const transport = useMemo(
+        () => createBenchmarkTransport(tokenCount, burstSize),
+        [tokenCount, burstSize],
+    )
+    const { messages, isStreaming, sendMessage, clearChat } = useChatMessages({
+        transport,
+        updateInterval,
+    })
+
+    const onRender = useCallback<React.ProfilerOnRenderCallback>((_id, _phase, actualDuration) => {
+        commitsRef.current++
+        renderMsRef.current += actualDuration
+    }, [])
+
+    const runBenchmark = useCallback(async () => {
+        clearChat()
+        commitsRef.current = 0
+        renderMsRef.current = 0
+        const start = performance.now()
+        await sendMessage(`Stream ${tokenCount} tokens`, 'benchmark')
+        // Let the final flush commit before reading the counters
+        await new Promise((resolve) => setTimeout(resolve, 50))
+        setResults((prev) => [
+            ...prev,
+            {
+                updateInterval,
+                tokens: tokenCount,
+                commits: commitsRef.current,
+                renderMs: Math.round(renderMsRef.current),
+                totalMs: Math.round(performance.now() - start),
+            },
+        ])
+    }, [clearChat, sendMessage, tokenCount, updateInterval])
+
+    return (
+        <div className='h-screen flex flex-col bg-gray-900 text-gray-100'>
+            <div className='flex flex-wrap items-center gap-3 p-4 border-b border-gray-700 text-sm'>
+                <label className='flex items-center gap-2'>
+                    Update interval
+                    <select
+                        className='bg-gray-800 border border-gray-600 rounded px-2 py-1'
+                        value={String(updateInterval)}
+                        disabled={isStreaming}
+                        onChange={(e) =>
+                            setUpdateInterval(
+                                e.target.value === 'frame' ? 'frame' : Number(e.target.value),
+                            )
+                        }
+                    >
+                        <option value='frame'>frame</option>
+                        <option value='50'>50 ms</option>
+                        <option value='0'>0 (every token)</option>
+                    </select>
+                </label>
+                <button
+                    className='px-3 py-1 rounded bg-blue-600 disabled:opacity-50'
+                    disabled={isStreaming}
+                    onClick={runBenchmark}
+                >
+                    {isStreaming ? 'Streaming…' : `Stream ${tokenCount.toLocaleString()} tokens`}
+                </button>
+                <table className='ml-auto text-xs'>
+                    <thead>
+                        <tr className='text-gray-400'>
+                            <th className='px-2 text-left'>interval</th>
+                            <th className='px-2 text-right'>tokens</th>
+                            <th className='px-2 text-right'>commits</th>
+                            <th className='px-2 text-right'>render ms</th>
+                            <th className='px-2 text-right'>total ms</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {results.map((result, index) => (
+                            <tr key={index}>
+                                <td className='px-2'>{String(result.updateInterval)}</td>
+                                <td className='px-2 text-right'>{result.tokens}</td>
+                                <td className='px-2 text-right'>{result.commits}</td>
+                                <td className='px-2 text-right'>{result.renderMs}</td>
+                                <td className='px-2 text-right'>{result.totalMs}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+            <div className='flex-1 min-h-0'>
+                <Profiler id='chat' onRender={onRender}>
+                    <ChatContainer messages={messages} isStreaming={isStreaming} />
+                </Profiler>
+            </div>
+        </div>
+    )
+}
+
+// =============================================================================
+// Stories
+// =============================================================================
+
+const meta: Meta<typeof StreamingBenchmark> = {
+    title: 'Benchmarks/Streaming',
+    component: StreamingBenchmark,
+    parameters: {
+        layout: 'fullscreen',
+        docs: {
+            description: {
+                component: `
+Measures how often the message list commits while a fast model streams.
+Compare \`updateInterval: 'frame'\` (default), a fixed interval and \`0\`
+(every token): the commit count should drop from one per token to roughly
+one per frame.
+                `,
+            },
+        },
+    },
+}
+
+export default meta
+type Story = StoryObj<typeof StreamingBenchmark>
+
+export const TenThousandTokens: Story = {
+    args: {
+        tokenCount: 10000,
+        burstSize: 50,
+    },
+}
@@ -1,10 +1,14 @@
-import React from 'react'
+import { forwardRef } from 'react'
 import { ChatContainer } from '../ChatContainer'
+import type { IChatContainerHandle } from '../ChatContainer'
 import { ChatInput } from '../ChatInput'
 import type { IChatPanelProps } from './types'
 import { clsx } from 'clsx'
 
-export const ChatPanel: React.FC<IChatPanelProps> = ({
+/**
+ * The `ref` gives access to the message list's `scrollToMessage` and `scrollToBottom`.
+ */
+export const ChatPanel = forwardRef<IChatContainerHandle, IChatPanelProps>(({
     className,
     messages,
     isStreaming,
@@ -14,22 +18,49 @@ export const ChatPanel: React.FC<IChatPanelProps> = ({
     onUploadPdf,
     onRemovePdf,
     onClearChat,
+    onRetryMessage,
+    onRegenerateMessage,
+    onSelectMessageVersion,
+    onContinueMessage,
+    onEditMessage,
+    onSelectMessageBranch,
     theme,
+    onLoadOlder,
+    hasMore,
+    isLoadingOlder,
     emptyStateTitle,
+    virtualize,
     availableModels,
     selectedModel,
     onModelChange,
-}) => {
-    return (
-        <div className={clsx('h-full flex flex-col relative', className)}>
+    sidebar,
+}, ref) => {
+    const chat = (
+        <div
+            className={clsx(
+                'h-full flex flex-col relative',
+                sidebar ? 'flex-1 min-w-0' : className,
+            )}
+        >
             {/* Messages Area - takes all available space */}
             <div className='flex-1 overflow-hidden min-h-0'>
                 <ChatContainer
+                    ref={ref}
                     messages={messages}
                     isStreaming={isStreaming}
                     onSuggestedQuestionClick={onSendMessage}
+                    onRetryMessage={onRetryMessage}
+                    onRegenerateMessage={onRegenerateMessage}
+                    onSelectMessageVersion={onSelectMessageVersion}
+                    onContinueMessage={onContinueMessage}
+                    onEditMessage={onEditMessage}
+                    onSelectMessageBranch={onSelectMessageBranch}
                     theme={theme}
+                    onLoadOlder={onLoadOlder}
+                    hasMore={hasMore}
+                    isLoadingOlder={isLoadingOlder}
                     emptyStateTitle={emptyStateTitle}
+                    virtualize={virtualize}
                 />
             </div>
 
@@ -57,6 +88,17 @@ export const ChatPanel: React.FC<IChatPanelProps> = ({
             </div>
         </div>
     )
-}
+
+    if (!sidebar) return chat
+
+    return (
+        <div className={clsx('h-full flex', className)}>
+            {sidebar}
+            {chat}
+        </div>
+    )
+})
+
+ChatPanel.displayName = 'ChatPanel'
 
 export type { IChatPanelProps } from './types'
@@ -41,9 +41,31 @@ export interface IChatPanelProps {
     onRemovePdf?: (uuid: string) => void
     /** Callback to clear the chat history */
     onClearChat?: () => void
+    /** Callback to retry a failed assistant message; shows a Retry action when set */
+    onRetryMessage?: (messageId: string) => void
+    /** Callback to regenerate an answer; shows a Regenerate action on every answer when set */
+    onRegenerateMessage?: (messageId: string) => void
+    /** Callback to show another answer of a regenerated message; shows a "2 / 3" switcher */
+    onSelectMessageVersion?: (messageId: string, versionIndex: number) => void
+    /** Callback to continue a stopped answer; shows a Continue action when set */
+    onContinueMessage?: (messageId: string) => void
+    /** Callback with the new text of an edited user message; shows an Edit action when set */
+    onEditMessage?: (messageId: string, content: string) => void
+    /** Callback to show another branch of an edited message; shows a "2 / 3" switcher */
+    onSelectMessageBranch?: (messageId: string, branchIndex: number) => void
+    /** Callback to load older messages, called when the user scrolls near the top */
+    onLoadOlder?: () => void
+    /** Whether there are older messages to load with `onLoadOlder` */
+    hasMore?: boolean
+    /** Whether older messages are currently loading */
+    isLoadingOlder?: boolean
     /** Custom title text shown when there are no messages */
     emptyStateTitle?: string
-    /** Custom theme to override default styling */
+    /** Render only the messages near the viewport in long conversations (default: true) */
+    virtualize?: boolean
+    /** Sidebar shown to the left of the chat, e.g. a `ConversationList` */
+    sidebar?: React.ReactNode
+    /** Custom theme to override the `ChatConfigProvider` theme and default styling */
     theme?: Partial<ChatTheme>
     /** Available AI models for selection */
     availableModels?: IModelOption[]
@@ -0,0 +1,181 @@
+import React, { useId, useState } from 'react'
+import { DocumentIcon, LinkIcon } from '@heroicons/react/24/outline'
+import type { ICitationChipProps, ISourceListProps } from './types'
+import type { ICitation } from '../../types'
+import type { IChatConfig } from '../../context'
+import { useChatConfig, useChatTheme } from '../../context'
+import { sanitizeUrl } from '../markdownComponents'
+
+/**
+ * Where a citation links to: the attached PDF it cites, if the app gives it
+ * a URL, otherwise the citation's `url`
+ */
+const getCitationHref = (
+    citation: ICitation,
+    getPdfUrl: NonNullable<IChatConfig['getPdfUrl']>,
+): string | undefined => {
+    const pdfUrl = citation.file && getPdfUrl(citation.file, citation.page)
+    return sanitizeUrl(pdfUrl ?? citation.url)
+}
+
+/**
+ * Host name of a URL, or `undefined` if it has none
+ */
+const getHostname = (url: string | undefined): string | undefined => {
+    if (!url) return undefined
+    try {
+        return new URL(url).hostname || undefined
+    } catch {
+        return undefined
+    }
+}
+
+const getCitationTitle = (citation: ICitation): string =>
+    citation.title ?? citation.file?.name ?? getHostname(citation.url) ?? `Source ${citation.id}`
+
+/**
+ * The cited file and page, or the site, e.g. `report.pdf, page 3`
+ */
+const describeCitationSource = (citation: ICitation): string | undefined => {
+    const source = citation.file?.name ?? getHostname(citation.url)
+    if (citation.page === undefined) return source
+    return source ? `${source}, page ${citation.page}` : `Page ${citation.page}`
+}
+
+/**
+ * Inline `[1]`-style citation marker. Hovering or focusing it shows the
+ * source's title and snippet; it links to the source when it has a URL.
+ */
+export const CitationChip: React.FC<ICitationChipProps> = ({ citation, theme }) => {
+    const fullTheme = useChatTheme(theme)
+    const colors = fullTheme.colors
+    const { config } = useChatConfig()
+    const [isOpen, setIsOpen] = useState(false)
+    const tooltipId = useId()
+
+    const href = getCitationHref(citation, config.getPdfUrl)
+    const title = getCitationTitle(citation)
+    const source = describeCitationSource(citation)
+
+    const chipProps = {
+        'aria-label': `Source ${citation.id}: ${title}`,
+        'aria-describedby': tooltipId,
+        onMouseEnter: () => setIsOpen(true),
+        onMouseLeave: () => setIsOpen(false),
+        onFocus: () => setIsOpen(true),
+        onBlur: () => setIsOpen(false),
+        onKeyDown: (e: React.KeyboardEvent) => {
+            if (e.key === 'Escape') setIsOpen(false)
+        },
+        className: 'inline-flex items-center justify-center min-w-4 h-4 px-1 rounded-full text-[10px] font-medium leading-none no-underline',
+        style: { backgroundColor: colors.codeInlineBg, color: colors.assistantMessageText },
+    }
+
+    return (
+        <span className='relative inline-block align-super mx-0.5'>
+            {href ? (
+                <a href={href} target='_blank' rel='noopener noreferrer nofollow' {...chipProps}>
+                    {citation.id}
+                </a>
+            ) : (
+                <span tabIndex={0} {...chipProps}>
+                    {citation.id}
+                </span>
+            )}
+            {/* Always rendered, so the chip is described when it's hidden */}
+            <span
+                id={tooltipId}
+                role='tooltip'
+                hidden={!isOpen}
+                className='absolute left-0 bottom-full mb-1 z-10 w-64 p-2 rounded-lg border shadow-md text-xs text-left whitespace-normal'
+                style={{
+                    backgroundColor: colors.toolContainerBg,
+                    borderColor: colors.toolContainerBorder,
+                    color: colors.textMuted,
+                }}
+            >
+                <span className='block font-medium'>{title}</span>
+                {source && source !== title && (
+                    <span className='block' style={{ color: colors.assistantMessageTextSecondary }}>
+                        {source}
+                    </span>
+                )}
+                {citation.snippet && (
+                    <span className='block mt-1 line-clamp-4'>{citation.snippet}</span>
+                )}
+            </span>
+        </span>
+    )
+}
+
+/**
+ * Numbered list of the sources an answer cites, shown under the answer
+ */
+export const SourceList: React.FC<ISourceListProps> = ({ citations, theme }) => {
+    const fullTheme = useChatTheme(theme)
+    const colors = fullTheme.colors
+    const { config } = useChatConfig()
+
+    if (citations.length === 0) return null
+
+    return (
+        <section
+            aria-label='Sources'
+            className='mt-3 pt-2 border-t text-xs md:text-sm'
+            style={{ borderColor: colors.border }}
+        >
+            <h3 className='mb-1 font-medium' style={{ color: colors.assistantMessageText }}>
+                Sources
+            </h3>
+            <ol className='space-y-1'>
+                {citations.map((citation) => {
+                    const href = getCitationHref(citation, config.getPdfUrl)
+                    const title = getCitationTitle(citation)
+                    const source = describeCitationSource(citation)
+                    const Icon = citation.file ? DocumentIcon : LinkIcon
+
+                    return (
+                        <li key={citation.id} className='flex items-start gap-2'>
+                            <span
+                                className='shrink-0 tabular-nums'
+                                style={{ color: colors.assistantMessageTextSecondary }}
+                            >
+                                [{citation.id}]
+                            </span>
+                            <Icon
+                                className='w-4 h-4 mt-0.5 shrink-0'
+                                style={{ color: colors.assistantMessageTextSecondary }}
+                                aria-hidden='true'
+                            />
+                            <span className='min-w-0'>
+                                {href ? (
+                                    <a
+                                        href={href}
+                                        target='_blank'
+                                        rel='noopener noreferrer nofollow'
+                                        className='underline wrap-break-word'
+                                        style={{ color: colors.link }}
+                                    >
+                                        {title}
+                                    </a>
+                                ) : (
+                                    <span style={{ color: colors.assistantMessageText }}>
+                                        {title}
+                                    </span>
+                                )}
+                                {source && source !== title && (
+                                    <span style={{ color: colors.assistantMessageTextSecondary }}>
+                                        {' '}
+                                        · {source}
+                                    </span>
+                                )}
+                            </span>
+                        </li>
+                    )
+                })}
+            </ol>
+        </section>
+    )
+}
+
+export type { ICitationChipProps, ISourceListProps } from './types'
@@ -0,0 +1,11 @@
+import type { ICitation, ChatTheme } from '../../types'
+
+export interface ICitationChipProps {
+    citation: ICitation
+    theme?: Partial<ChatTheme>
+}
+
+export interface ISourceListProps {
+    citations: ICitation[]
+    theme?: Partial<ChatTheme>
+}
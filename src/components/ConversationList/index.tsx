@@ -0,0 +1,236 @@
+import React, { useState } from 'react'
+import {
+    MagnifyingGlassIcon,
+    PencilSquareIcon,
+    PlusIcon,
+    TrashIcon,
+} from '@heroicons/react/24/outline'
+import { clsx } from 'clsx'
+import type { IConversationListProps } from './types'
+import type { IConversation } from '../../types'
+import { useChatTheme } from '../../context'
+import { searchConversations } from '../../hooks/useConversations'
+
+type Colors = ReturnType<typeof useChatTheme>['colors']
+
+/**
+ * Time of day for conversations updated today, otherwise the date.
+ */
+const formatUpdatedAt = (date: Date): string => {
+    const isToday = date.toDateString() === new Date().toDateString()
+    return isToday
+        ? date.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })
+        : date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })
+}
+
+interface IConversationItemProps {
+    conversation: IConversation
+    isActive: boolean
+    colors: Colors
+    onSelect: (conversationId: string) => void
+    onRename?: (conversationId: string, title: string) => void
+    onDelete?: (conversationId: string) => void
+}
+
+const ConversationItem: React.FC<IConversationItemProps> = ({
+    conversation,
+    isActive,
+    colors,
+    onSelect,
+    onRename,
+    onDelete,
+}) => {
+    const [draftTitle, setDraftTitle] = useState<string | null>(null)
+
+    const commitRename = () => {
+        if (draftTitle === null) return
+        if (draftTitle.trim() && draftTitle !== conversation.title) {
+            onRename?.(conversation.id, draftTitle)
+        }
+        setDraftTitle(null)
+    }
+
+    const background = isActive ? colors.backgroundTertiary : 'transparent'
+
+    if (draftTitle !== null) {
+        return (
+            <li className='px-2 py-1'>
+                <input
+                    autoFocus
+                    value={draftTitle}
+                    aria-label='Conversation title'
+                    onChange={(e) => setDraftTitle(e.target.value)}
+                    onBlur={commitRename}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitRename()
+                        if (e.key === 'Escape') setDraftTitle(null)
+                    }}
+                    className='w-full px-2 py-1.5 text-sm rounded-lg border focus:outline-none'
+                    style={{
+                        backgroundColor: colors.inputBg,
+                        borderColor: colors.inputFocusBorder,
+                        color: colors.text,
+                    }}
+                />
+            </li>
+        )
+    }
+
+    return (
+        <li
+            className='group flex items-center gap-1 mx-2 rounded-lg transition-colors'
+            style={{ backgroundColor: background }}
+            onMouseEnter={(e) => {
+                e.currentTarget.style.backgroundColor = colors.backgroundTertiary!
+            }}
+            onMouseLeave={(e) => {
+                e.currentTarget.style.backgroundColor = background!
+            }}
+        >
+            <button
+                type='button'
+                onClick={() => onSelect(conversation.id)}
+                aria-current={isActive ? 'page' : undefined}
+                className='flex-1 min-w-0 px-3 py-2 text-left'
+            >
+                <span
+                    className='block truncate text-sm'
+                    style={{ color: isActive ? colors.text : colors.textSecondary }}
+                >
+                    {conversation.title}
+                </span>
+                <span className='block text-xs' style={{ color: colors.textTertiary }}>
+                    {formatUpdatedAt(conversation.updatedAt)}
+                </span>
+            </button>
+
+            {/* Actions show on hover and keyboard focus */}
+            <div className='flex shrink-0 pr-2 opacity-0 group-hover:opacity-100 focus-within:opacity-100'>
+                {onRename && (
+                    <button
+                        type='button'
+                        onClick={() => setDraftTitle(conversation.title)}
+                        aria-label={`Rename "${conversation.title}"`}
+                        title='Rename'
+                        className='p-1 rounded-md'
+                        style={{ color: colors.textTertiary }}
+                    >
+                        <PencilSquareIcon className='w-4 h-4' />
+                    </button>
+                )}
+                {onDelete && (
+                    <button
+                        type='button'
+                        onClick={() => onDelete(conversation.id)}
+                        aria-label={`Delete "${conversation.title}"`}
+                        title='Delete'
+                        className='p-1 rounded-md'
+                        style={{ color: colors.textTertiary }}
+                        onMouseEnter={(e) => {
+                            e.currentTarget.style.color = colors.buttonDanger!
+                        }}
+                        onMouseLeave={(e) => {
+                            e.currentTarget.style.color = colors.textTertiary!
+                        }}
+                    >
+                        <TrashIcon className='w-4 h-4' />
+                    </button>
+                )}
+            </div>
+        </li>
+    )
+}
+
+/**
+ * Sidebar listing conversations, with a New chat button, search by title,
+ * and rename and delete actions. Pass it to `ChatPanel` as `sidebar`.
+ */
+export const ConversationList: React.FC<IConversationListProps> = ({
+    conversations,
+    activeConversationId,
+    onSelect,
+    onCreate,
+    onRename,
+    onDelete,
+    searchable = true,
+    className,
+    theme,
+}) => {
+    const fullTheme = useChatTheme(theme)
+    const colors = fullTheme.colors
+    const [query, setQuery] = useState('')
+
+    const shown = searchConversations(conversations, query)
+
+    return (
+        <div
+            className={clsx('h-full w-64 shrink-0 flex flex-col border-r', className)}
+            style={{ backgroundColor: colors.backgroundSecondary, borderColor: colors.border }}
+        >
+            <div className='p-3 space-y-2'>
+                {onCreate && (
+                    <button
+                        type='button'
+                        onClick={onCreate}
+                        className='flex items-center gap-2 w-full px-3 py-2 text-sm rounded-lg border transition-colors'
+                        style={{ borderColor: colors.border, color: colors.text }}
+                        onMouseEnter={(e) => {
+                            e.currentTarget.style.backgroundColor = colors.backgroundTertiary!
+                        }}
+                        onMouseLeave={(e) => {
+                            e.currentTarget.style.backgroundColor = 'transparent'
+                        }}
+                    >
+                        <PlusIcon className='w-4 h-4' />
+                        New chat
+                    </button>
+                )}
+                {searchable && (
+                    <div className='relative'>
+                        <MagnifyingGlassIcon
+                            className='absolute left-2.5 top-1/2 -translate-y-1/2 w-4 h-4 pointer-events-none'
+                            style={{ color: colors.textTertiary }}
+                        />
+                        <input
+                            type='search'
+                            value={query}
+                            onChange={(e) => setQuery(e.target.value)}
+                            placeholder='Search chats'
+                            aria-label='Search conversations'
+                            className='w-full pl-8 pr-3 py-2 text-sm rounded-lg border focus:outline-none'
+                            style={{
+                                backgroundColor: colors.inputBg,
+                                borderColor: colors.inputBorder,
+                                color: colors.text,
+                            }}
+                        />
+                    </div>
+                )}
+            </div>
+
+            <nav aria-label='Conversations' className='flex-1 overflow-y-auto pb-3'>
+                {shown.length > 0 ? (
+                    <ul className='space-y-0.5'>
+                        {shown.map((conversation) => (
+                            <ConversationItem
+                                key={conversation.id}
+                                conversation={conversation}
+                                isActive={conversation.id === activeConversationId}
+                                colors={colors}
+                                onSelect={onSelect}
+                                onRename={onRename}
+                                onDelete={onDelete}
+                            />
+                        ))}
+                    </ul>
+                ) : (
+                    <p className='px-5 py-2 text-sm' style={{ color: colors.textTertiary }}>
+                        {query ? 'No matching conversations' : 'No conversations yet'}
+                    </p>
+                )}
+            </nav>
+        </div>
+    )
+}
+
+export type { IConversationListProps } from './types'
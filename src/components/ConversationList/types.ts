@@ -0,0 +1,37 @@
+import type { ChatTheme, IConversation } from '../../types'
+
+/**
+ * Props for the ConversationList component - a sidebar listing conversations.
+ *
+ * @example
+ * ```tsx
+ * <ConversationList
+ *   conversations={conversations.conversations}
+ *   activeConversationId={conversations.activeConversationId}
+ *   onSelect={conversations.switchConversation}
+ *   onCreate={() => conversations.createConversation()}
+ *   onRename={conversations.renameConversation}
+ *   onDelete={conversations.deleteConversation}
+ * />
+ * ```
+ */
+export interface IConversationListProps {
+    /** Conversations to list, in display order */
+    conversations: IConversation[]
+    /** Id of the open conversation, highlighted in the list */
+    activeConversationId?: string
+    /** Callback when the user opens a conversation */
+    onSelect: (conversationId: string) => void
+    /** Callback for the New chat button; the button is hidden without it */
+    onCreate?: () => void
+    /** Callback to rename a conversation; shows a Rename action when set */
+    onRename?: (conversationId: string, title: string) => void
+    /** Callback to delete a conversation; shows a Delete action when set */
+    onDelete?: (conversationId: string) => void
+    /** Show a search field that filters conversations by title (default: true) */
+    searchable?: boolean
+    /** Additional CSS class names to apply to the container */
+    className?: string
+    /** Custom theme to override the `ChatConfigProvider` theme and default styling */
+    theme?: Partial<ChatTheme>
+}
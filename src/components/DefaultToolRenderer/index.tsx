@@ -0,0 +1,37 @@
+import React from 'react'
+import type { IToolRendererComponentProps } from '../../context'
+import { safeJsonParse } from '../../utils/streaming'
+
+/**
+ * Generic fallback renderer for tools without a registered renderer.
+ * JSON output is pretty-printed; anything else is shown as plain text.
+ */
+export const DefaultToolRenderer: React.FC<IToolRendererComponentProps> = ({ output, theme }) => {
+    const colors = theme.colors
+
+    if (!output.trim()) {
+        return null
+    }
+
+    const parsed = safeJsonParse(output)
+    const isStructured = parsed !== null && typeof parsed === 'object'
+
+    return (
+        <div
+            className='text-xs md:text-sm p-3 rounded-lg border overflow-x-auto max-h-80'
+            style={{
+                backgroundColor: colors.toolContainerBg,
+                borderColor: colors.toolContainerBorder,
+                color: colors.textMuted,
+            }}
+        >
+            {isStructured ? (
+                <pre className='whitespace-pre font-mono'>
+                    <code>{JSON.stringify(parsed, null, 2)}</code>
+                </pre>
+            ) : (
+                <div className='whitespace-pre-wrap wrap-break-word'>{output}</div>
+            )}
+        </div>
+    )
+}
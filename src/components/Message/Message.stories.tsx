@@ -59,3 +59,183 @@ const code = 'example'
         isStreaming: false,
     },
 }
+
+export const AssistantMessageWithTools: Story = {
+    args: {
+        message: {
+            id: '4',
+            role: 'assistant',
+            content: 'Let me look that up.The forecast for Zurich is sunny with a high of 24°C.',
+            toolOutputs: [
+                {
+                    toolName: 'get_weather',
+                    friendlyName: 'Weather',
+                    title: 'Zurich',
+                    input: '{"city":"Zurich"}',
+                    output: '{"condition":"sunny","high":24,"low":13}',
+                    visible: true,
+                    status: 'done',
+                },
+            ],
+            contentSegments: [
+                { type: 'text', content: 'Let me look that up.' },
+                { type: 'tool', toolIndex: 0 },
+                {
+                    type: 'text',
+                    content: 'The forecast for Zurich is sunny with a high of 24°C.',
+                },
+            ],
+            timestamp: new Date(),
+        },
+        isLatest: false,
+        isStreaming: false,
+    },
+}
+
+export const AssistantMessageWithError: Story = {
+    args: {
+        message: {
+            id: '5',
+            role: 'assistant',
+            content: 'Kubernetes schedules pods onto',
+            timestamp: new Date(),
+            status: 'error',
+            error: {
+                name: 'NetworkError',
+                message: 'Failed to fetch',
+            },
+        },
+        isLatest: true,
+        isStreaming: false,
+        onRetry: (messageId: string) => console.log('Retry', messageId),
+    },
+}
+
+export const AssistantMessageStopped: Story = {
+    args: {
+        message: {
+            id: '6',
+            role: 'assistant',
+            content: 'A Deployment manages ReplicaSets, which in turn',
+            timestamp: new Date(),
+            status: 'complete',
+            stopReason: 'user_stopped',
+        },
+        isLatest: true,
+        isStreaming: false,
+        onContinue: (messageId: string) => console.log('Continue', messageId),
+    },
+}
+
+export const AssistantMessageCutOff: Story = {
+    args: {
+        message: {
+            id: '7',
+            role: 'assistant',
+            content: 'Here is the full list of kubectl commands, with examples for each:',
+            timestamp: new Date(),
+            status: 'complete',
+            stopReason: 'length',
+        },
+        isLatest: true,
+        isStreaming: false,
+        onContinue: (messageId: string) => console.log('Continue', messageId),
+    },
+}
+
+export const AssistantMessageBlocked: Story = {
+    args: {
+        message: {
+            id: '8',
+            role: 'assistant',
+            content: '',
+            timestamp: new Date(),
+            status: 'complete',
+            stopReason: 'content_filter',
+            blockedCategories: ['dangerous content'],
+        },
+        isLatest: true,
+        isStreaming: false,
+    },
+}
+
+export const AssistantMessageThinking: Story = {
+    args: {
+        message: {
+            id: '9',
+            role: 'assistant',
+            content: '',
+            contentSegments: [
+                {
+                    type: 'reasoning',
+                    content:
+                        'The user wants to scale a deployment. I should mention kubectl scale and the HPA.',
+                    startedAt: new Date(),
+                },
+            ],
+            timestamp: new Date(),
+            status: 'streaming',
+        },
+        isLatest: true,
+        isStreaming: true,
+    },
+}
+
+export const AssistantMessageWithReasoning: Story = {
+    args: {
+        message: {
+            id: '10',
+            role: 'assistant',
+            content: 'Run `kubectl scale deployment web --replicas=5`, or add a HorizontalPodAutoscaler.',
+            contentSegments: [
+                {
+                    type: 'reasoning',
+                    content:
+                        'The user wants to scale a deployment. I should mention kubectl scale and the HPA.',
+                    startedAt: new Date(Date.now() - 12000),
+                    completedAt: new Date(),
+                },
+                {
+                    type: 'text',
+                    content:
+                        'Run `kubectl scale deployment web --replicas=5`, or add a HorizontalPodAutoscaler.',
+                },
+            ],
+            timestamp: new Date(),
+            status: 'complete',
+        },
+        isLatest: true,
+        isStreaming: false,
+    },
+}
+
+export const AssistantMessageWithCitations: Story = {
+    args: {
+        message: {
+            id: '11',
+            role: 'assistant',
+            content:
+                'Pods are restarted according to their `restartPolicy` [1]. The quarterly report lists three outages caused by failed liveness probes [2].',
+            citations: [
+                {
+                    id: '1',
+                    title: 'Pod Lifecycle',
+                    url: 'https://kubernetes.io/docs/concepts/workloads/pods/pod-lifecycle/',
+                    snippet:
+                        'The spec of a Pod has a restartPolicy field with possible values Always, OnFailure, and Never.',
+                },
+                {
+                    id: '2',
+                    documentUuid: 'report-q3',
+                    page: 12,
+                    snippet: 'Three outages were traced back to misconfigured liveness probes.',
+                    file: { uuid: 'report-q3', name: 'q3-incident-report.pdf' },
+                },
+            ],
+            timestamp: new Date(),
+            status: 'complete',
+        },
+        isLatest: true,
+        isStreaming: false,
+    },
+}
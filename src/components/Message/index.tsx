@@ -1,53 +1,82 @@
-import React from "react";
-import type { IMessageProps } from "./types";
-import { UserMessage } from "../UserMessage";
-import { AssistantMessage } from "../AssistantMessage";
+import React from 'react'
+import type { IMessageProps } from './types'
+import { UserMessage } from '../UserMessage'
+import { AssistantMessage } from '../AssistantMessage'
 
-export const Message: React.FC<IMessageProps> = ({
-  message,
-  hasReply = false,
-  isLatest = false,
-  isStreaming = false,
-  messages,
-  onSuggestedQuestionClick: _onSuggestedQuestionClick,
-  theme,
+const MessageComponent: React.FC<IMessageProps> = ({
+    message,
+    hasReply = false,
+    isLatest = false,
+    isStreaming = false,
+    messages,
+    onSuggestedQuestionClick: _onSuggestedQuestionClick,
+    onRetry,
+    onRegenerate,
+    onSelectVersion,
+    onContinue,
+    onEdit,
+    onSelectBranch,
+    theme,
+    setSize,
+    position,
 }) => {
-  const ariaLabel =
-    message.role === "user"
-      ? `Your message: ${message.content.slice(0, 100)}${message.content.length > 100 ? "..." : ""}`
-      : "Assistant response";
+    const ariaLabel =
+        message.role === 'user'
+            ? `Your message: ${message.content.slice(0, 100)}${message.content.length > 100 ? '...' : ''}`
+            : 'Assistant response'
 
-  if (message.role === "user") {
-    return (
-      <article
-        role="listitem"
-        aria-label={ariaLabel}
-        className="animate-fade-in-up"
-      >
-        <UserMessage message={message} hasReply={hasReply} theme={theme} />
-      </article>
-    );
-  }
+    if (message.role === 'user') {
+        return (
+            <article
+                role='listitem'
+                aria-label={ariaLabel}
+                aria-setsize={setSize}
+                aria-posinset={position}
+                className='animate-fade-in-up'
+            >
+                <UserMessage
+                    message={message}
+                    hasReply={hasReply}
+                    onEdit={onEdit}
+                    onSelectBranch={onSelectBranch}
+                    theme={theme}
+                />
+            </article>
+        )
+    }
 
-  return (
-    <article
-      role="listitem"
-      aria-label={ariaLabel}
-      aria-busy={isStreaming && isLatest}
-      className={!isStreaming ? "animate-fade-in-up" : ""}
-    >
-      <AssistantMessage
-        message={message}
-        isStreaming={isStreaming}
-        isLatestMessage={isLatest}
-        messages={messages}
-        theme={theme}
-      />
-      {/* {isLatest && !hasReply && !isStreaming && onSuggestedQuestionClick && (
+    return (
+        <article
+            role='listitem'
+            aria-label={ariaLabel}
+            aria-setsize={setSize}
+            aria-posinset={position}
+            aria-busy={isStreaming}
+            className={!isStreaming ? 'animate-fade-in-up' : ''}
+        >
+            <AssistantMessage
+                message={message}
+                isStreaming={isStreaming}
+                // An earlier answer being regenerated streams like the latest one
+                isLatestMessage={isLatest || isStreaming}
+                messages={messages}
+                onRetry={onRetry}
+                onRegenerate={onRegenerate}
+                onSelectVersion={onSelectVersion}
+                onContinue={onContinue}
+                theme={theme}
+            />
+            {/* {isLatest && !hasReply && !isStreaming && onSuggestedQuestionClick && (
                 <SuggestedQuestions onQuestionClick={onSuggestedQuestionClick} theme={theme} />
             )} */}
-    </article>
-  );
-};
+        </article>
+    )
+}
+
+/**
+ * Memoized so that rows whose props didn't change skip re-rendering while
+ * the latest message streams.
+ */
+export const Message = React.memo(MessageComponent)
 
-export type { IMessageProps } from "./types";
+export type { IMessageProps } from './types'
@@ -4,8 +4,19 @@ export interface IMessageProps {
     message: IMessage
     hasReply?: boolean
     isLatest?: boolean
+    /** Whether this message is being streamed */
     isStreaming?: boolean
     messages?: IMessage[]
     onSuggestedQuestionClick?: (question: string) => void
+    onRetry?: (messageId: string) => void
+    onRegenerate?: (messageId: string) => void
+    onSelectVersion?: (messageId: string, versionIndex: number) => void
+    onContinue?: (messageId: string) => void
+    onEdit?: (messageId: string, content: string) => void
+    onSelectBranch?: (messageId: string, branchIndex: number) => void
     theme?: Partial<ChatTheme>
+    /** Number of messages in the conversation (`aria-setsize`), when not all are rendered */
+    setSize?: number
+    /** 1-based position in the conversation (`aria-posinset`), when not all are rendered */
+    position?: number
 }
@@ -0,0 +1,97 @@
+import type { Meta, StoryObj } from '@storybook/react'
+import { MessageContentRenderer } from './index'
+import { healStreamingMarkdown } from './markdownHealing'
+import { healingCorpus } from './markdownHealingCorpus'
+import type { IMessage } from '../../types'
+
+// =============================================================================
+// Corpus viewer
+// =============================================================================
+
+const toMessage = (content: string): IMessage => ({
+    id: content,
+    role: 'assistant',
+    content,
+    timestamp: new Date(),
+})
+
+function HealingCorpus() {
+    const failures = healingCorpus
+        .filter((c) => healStreamingMarkdown(c.input) !== c.expected)
+        .map((c) => c.name)
+
+    return (
+        <div className='p-6 bg-gray-900 text-gray-100 min-h-screen text-sm'>
+            <p className='mb-4' role='status'>
+                {failures.length === 0
+                    ? `All ${healingCorpus.length} snapshots heal as expected`
+                    : `${failures.length} of ${healingCorpus.length} differ: ${failures.join(', ')}`}
+            </p>
+            <table className='w-full border-collapse'>
+                <thead>
+                    <tr className='text-left text-gray-400'>
+                        <th className='p-2'>Snapshot</th>
+                        <th className='p-2'>Input</th>
+                        <th className='p-2'>Without healing</th>
+                        <th className='p-2'>Healed (live message)</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {healingCorpus.map((c) => {
+                        const healed = healStreamingMarkdown(c.input)
+                        const passed = healed === c.expected
+                        return (
+                            <tr key={c.name} className='border-t border-gray-700 align-top'>
+                                <td className='p-2'>
+                                    <span className={passed ? 'text-green-400' : 'text-red-400'}>
+                                        {passed ? '✓' : '✗'}
+                                    </span>{' '}
+                                    {c.name}
+                                </td>
+                                <td className='p-2'>
+                                    <pre className='whitespace-pre-wrap'>{c.input}</pre>
+                                </td>
+                                <td className='p-2'>
+                                    <MessageContentRenderer message={toMessage(c.input)} />
+                                </td>
+                                <td className='p-2'>
+                                    <MessageContentRenderer
+                                        message={toMessage(c.input)}
+                                        isStreaming
+                                    />
+                                </td>
+                            </tr>
+                        )
+                    })}
+                </tbody>
+            </table>
+        </div>
+    )
+}
+
+// =============================================================================
+// Stories
+// =============================================================================
+
+const meta: Meta<typeof HealingCorpus> = {
+    title: 'Components/MessageContentRenderer/Markdown Healing',
+    component: HealingCorpus,
+    parameters: {
+        layout: 'fullscreen',
+        docs: {
+            description: {
+                component: `
+Truncated markdown snapshots as they appear mid-stream. While a message is
+streaming, \`MessageContentRenderer\` heals its last block: it closes open
+code fences and inline markup, completes table headers and hides partial
+links and images. Each row checks the healed text against its expected value.
+                `,
+            },
+        },
+    },
+}
+
+export default meta
+type Story = StoryObj<typeof HealingCorpus>
+
+export const Corpus: Story = {}
@@ -0,0 +1,74 @@
+/**
+ * Markdown syntax tree node, as far as the plugin needs it
+ */
+interface IMarkdownNode {
+    type: string
+    value?: string
+    children?: IMarkdownNode[]
+    data?: {
+        hName?: string
+        hProperties?: Record<string, string>
+    }
+}
+
+/**
+ * `[id]` marker in text, e.g. `[1]` or `[doc-2]`
+ */
+const MARKER = /\[([^[\]\s]+)\]/g
+
+/**
+ * Nodes whose text is not answer prose: markers in them stay as typed
+ */
+const SKIPPED_NODES = new Set(['link', 'linkReference', 'definition'])
+
+/**
+ * Splits a text node at its markers of known citations. Each marker becomes
+ * a `cite` element with a `data-citation-id`.
+ */
+const splitMarkers = (node: IMarkdownNode, ids: Set<string>): IMarkdownNode[] => {
+    const text = node.value ?? ''
+    const nodes: IMarkdownNode[] = []
+    let lastIndex = 0
+
+    for (const match of text.matchAll(MARKER)) {
+        if (!ids.has(match[1])) continue
+        if (match.index > lastIndex) {
+            nodes.push({ type: 'text', value: text.slice(lastIndex, match.index) })
+        }
+        nodes.push({
+            type: 'citationMarker',
+            children: [{ type: 'text', value: match[1] }],
+            data: { hName: 'cite', hProperties: { dataCitationId: match[1] } },
+        })
+        lastIndex = match.index + match[0].length
+    }
+
+    if (lastIndex === 0) return [node]
+    if (lastIndex < text.length) nodes.push({ type: 'text', value: text.slice(lastIndex) })
+    return nodes
+}
+
+const replaceMarkers = (node: IMarkdownNode, ids: Set<string>): void => {
+    if (!node.children || SKIPPED_NODES.has(node.type)) return
+    node.children = node.children.flatMap((child) => {
+        if (child.type === 'text') return splitMarkers(child, ids)
+        replaceMarkers(child, ids)
+        return [child]
+    })
+}
+
+/**
+ * Remark plugin that turns `[id]` markers of the given citations into `cite`
+ * elements, to render as citation chips. Markers of unknown ids, and those
+ * in code or links, are left as text.
+ *
+ * @example
+ * ```tsx
+ * <ReactMarkdown remarkPlugins={[remarkCitations(new Set(['1', '2']))]} components={{ cite }}>
+ *   {'Pods restart on failure [1].'}
+ * </ReactMarkdown>
+ * ```
+ */
+export const remarkCitations = (ids: Set<string>) => () => (tree: IMarkdownNode) => {
+    replaceMarkers(tree, ids)
+}
@@ -1,20 +1,30 @@
-import React from 'react'
+import React, { useMemo } from 'react'
 import ReactMarkdown from 'react-markdown'
+import type { Components, Options } from 'react-markdown'
 import remarkGfm from 'remark-gfm'
-import type { IContentSegment, ChatTheme } from '../../types'
+import type { IContentSegment } from '../../types'
 import { markdownComponents } from '../markdownComponents'
+import { splitMarkdownBlocks } from './markdownBlocks'
+import { healStreamingMarkdown } from './markdownHealing'
 import type { IMessage } from '../../types'
 import type { IMessageContentRendererProps } from './types'
 import { MessageErrorBoundary } from '../ErrorBoundary'
+import { ToolOutput } from '../ToolOutput'
+import { ReasoningBlock } from '../ReasoningBlock'
+import { CitationChip } from '../Citations'
+import { remarkCitations } from './citationMarkers'
+import { useChatTheme } from '../../context'
 
 /**
  * Normalizes a message to always have contentSegments.
- * If contentSegments doesn't exist, generates it from content.
+ * If contentSegments doesn't exist, generates it from content and toolOutputs.
  */
 const normalizeMessageToSegments = (message: IMessage): IContentSegment[] => {
-    // If contentSegments already exists, filter to text only
+    // If contentSegments already exists, drop tool segments that can't be resolved
     if (message.contentSegments && message.contentSegments.length > 0) {
-        return message.contentSegments.filter((segment) => segment.type === 'text')
+        return message.contentSegments.filter(
+            (segment) => segment.type !== 'tool' || !!message.toolOutputs?.[segment.toolIndex],
+        )
     }
 
     // Generate contentSegments from content
@@ -28,58 +38,110 @@ const normalizeMessageToSegments = (message: IMessage): IContentSegment[] => {
         })
     }
 
+    // Tool outputs without ordering information go after the text
+    message.toolOutputs?.forEach((_, toolIndex) => {
+        segments.push({ type: 'tool', toolIndex })
+    })
+
     return segments
 }
 
 /**
- * Preprocesses content to convert HTML <br> tags to markdown line breaks
+ * Preprocesses content to convert HTML <br> tags to markdown line breaks.
+ * Content that is still streaming is also healed, so partial markdown renders
+ * as it will once complete.
  */
-const preprocessContent = (content: string): string => {
+const preprocessContent = (content: string, isStreaming = false): string => {
     // Convert <br> and <br/> tags to double newlines (markdown paragraph break)
-    return content.replace(/<br\s*\/?>/gi, '\n\n')
+    const processed = content.replace(/<br\s*\/?>/gi, '\n\n')
+    return isStreaming ? healStreamingMarkdown(processed) : processed
+}
+
+const REMARK_PLUGINS = [remarkGfm]
+
+type RemarkPlugins = NonNullable<Options['remarkPlugins']>
+
+interface IMarkdownProps {
+    content: string
+    components: Components
+    remarkPlugins: RemarkPlugins
+}
+
+interface IMarkdownTextProps extends IMarkdownProps {
+    isStreaming: boolean
 }
 
 /**
- * Renders a text segment as markdown
+ * A single markdown block. Memoized, so closed blocks aren't re-parsed while
+ * later content streams in.
  */
-const renderTextSegment = (
-    content: string,
-    segmentIndex: number,
-    theme?: Partial<ChatTheme>,
-): React.ReactNode => {
-    if (!content.trim()) {
-        return null
-    }
+const MarkdownBlock = React.memo(function MarkdownBlock({
+    content,
+    components,
+    remarkPlugins,
+}: IMarkdownProps) {
+    return (
+        <ReactMarkdown remarkPlugins={remarkPlugins} components={components}>
+            {content}
+        </ReactMarkdown>
+    )
+})
 
-    try {
-        const processedContent = preprocessContent(content)
-        return (
-            <div
-                key={`text-${segmentIndex}`}
-                className='leading-relaxed max-w-none text-sm md:text-base'
-            >
-                <ReactMarkdown
-                    remarkPlugins={[remarkGfm]}
-                    components={markdownComponents(theme, 'assistant')}
-                >
-                    {processedContent}
-                </ReactMarkdown>
-            </div>
-        )
-    } catch (error) {
-        console.warn('Markdown parsing failed, using plain text:', error)
-        return (
-            <div key={`text-${segmentIndex}`} className='whitespace-pre-wrap wrap-break-word'>
-                {content}
-            </div>
-        )
-    }
+/**
+ * Renders a text segment as markdown, one memoized block at a time
+ */
+const MarkdownText: React.FC<IMarkdownTextProps> = ({
+    content,
+    components,
+    remarkPlugins,
+    isStreaming,
+}) => {
+    const blocks = useMemo(
+        () => splitMarkdownBlocks(preprocessContent(content, isStreaming)),
+        [content, isStreaming],
+    )
+
+    return (
+        <div className='leading-relaxed max-w-none text-sm md:text-base'>
+            {blocks.map((block, blockIndex) => (
+                <MarkdownBlock
+                    key={blockIndex}
+                    content={block}
+                    components={components}
+                    remarkPlugins={remarkPlugins}
+                />
+            ))}
+        </div>
+    )
 }
 
 export const MessageContentRenderer: React.FC<IMessageContentRendererProps> = ({
     message,
+    isStreaming = false,
     theme,
 }) => {
+    const fullTheme = useChatTheme(theme)
+    const citations = message.citations
+    const components = useMemo<Components>(() => {
+        const baseComponents = markdownComponents(fullTheme, 'assistant')
+        if (!citations?.length) return baseComponents
+        return {
+            ...baseComponents,
+            // `[id]` markers of the citations, see remarkCitations
+            cite: (props) => {
+                const id = (props as { 'data-citation-id'?: string })['data-citation-id']
+                const citation = citations.find((cited) => cited.id === id)
+                return citation ? <CitationChip citation={citation} theme={fullTheme} /> : null
+            },
+        }
+    }, [fullTheme, citations])
+    const remarkPlugins = useMemo<RemarkPlugins>(
+        () =>
+            citations?.length
+                ? [remarkGfm, remarkCitations(new Set(citations.map((cited) => cited.id)))]
+                : REMARK_PLUGINS,
+        [citations],
+    )
     const segments = normalizeMessageToSegments(message)
 
     // If no segments to render, return null
@@ -91,9 +153,34 @@ export const MessageContentRenderer: React.FC<IMessageContentRendererProps> = ({
         <MessageErrorBoundary messageId={message.id}>
             {segments.map((segment, segmentIndex) => {
                 if (segment.type === 'text') {
-                    return renderTextSegment(segment.content, segmentIndex, theme)
+                    if (!segment.content.trim()) return null
+                    return (
+                        <MarkdownText
+                            key={`text-${segmentIndex}`}
+                            content={segment.content}
+                            components={components}
+                            remarkPlugins={remarkPlugins}
+                            isStreaming={isStreaming && segmentIndex === segments.length - 1}
+                        />
+                    )
+                }
+                if (segment.type === 'reasoning') {
+                    return (
+                        <ReasoningBlock
+                            key={`reasoning-${segmentIndex}`}
+                            segment={segment}
+                            isThinking={isStreaming && !segment.completedAt}
+                            theme={theme}
+                        />
+                    )
                 }
-                return null
+                return (
+                    <ToolOutput
+                        key={`tool-${segment.toolIndex}`}
+                        tool={message.toolOutputs![segment.toolIndex]}
+                        theme={theme}
+                    />
+                )
             })}
         </MessageErrorBoundary>
     )
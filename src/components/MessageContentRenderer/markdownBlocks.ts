@@ -0,0 +1,74 @@
+/**
+ * Opening or closing code fence (``` or ~~~, indented at most three spaces)
+ */
+const FENCE = /^ {0,3}(`{3,}|~{3,})/
+
+/**
+ * A line that continues the previous block after a blank line: list items
+ * (loose lists) and indented content (list item bodies, indented code)
+ */
+const CONTINUATION = /^(?:\s|[*+-](?:\s|$)|\d{1,9}[.)](?:\s|$))/
+
+/**
+ * Constructs that tie distant parts of a document together: link reference
+ * and footnote definitions, and HTML blocks that may contain blank lines
+ */
+const DOCUMENT_SCOPED = /^ {0,3}(?:\[[^\]]+\]:|<(?:!--|pre|script|style|textarea))/im
+
+/**
+ * Splits markdown into top-level blocks that parse the same on their own as
+ * they do in the full document, so each block can be rendered (and memoized)
+ * separately. While a message streams only the last block keeps changing.
+ *
+ * Blocks are split at blank lines outside fenced code, unless the next line
+ * continues a list or indented block. Documents with link definitions,
+ * footnotes or HTML blocks are returned whole.
+ *
+ * @example
+ * ```ts
+ * splitMarkdownBlocks('# Title\n\nIntro\n\n```js\na\n\nb\n```')
+ * // ['# Title', 'Intro', '```js\na\n\nb\n```']
+ * ```
+ */
+export const splitMarkdownBlocks = (markdown: string): string[] => {
+    if (DOCUMENT_SCOPED.test(markdown)) return [markdown]
+
+    const lines = markdown.split('\n')
+    const blocks: string[] = []
+    let blockStart = 0
+    let openFence: string | null = null
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i]
+        const fence = FENCE.exec(line)?.[1]
+
+        if (openFence) {
+            // A closing fence uses the same character, is at least as long and has no info string
+            if (
+                fence &&
+                fence[0] === openFence[0] &&
+                fence.length >= openFence.length &&
+                line.trim() === fence
+            ) {
+                openFence = null
+            }
+            continue
+        }
+        if (fence) {
+            openFence = fence
+            continue
+        }
+        if (line.trim() !== '') continue
+
+        let next = i + 1
+        while (next < lines.length && lines[next].trim() === '') next++
+        if (next === lines.length || CONTINUATION.test(lines[next])) continue
+
+        blocks.push(lines.slice(blockStart, i).join('\n'))
+        blockStart = next
+        i = next - 1
+    }
+    blocks.push(lines.slice(blockStart).join('\n'))
+
+    return blocks.filter((block) => block.trim() !== '')
+}
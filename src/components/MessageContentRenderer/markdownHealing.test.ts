@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest'
+import { healStreamingMarkdown } from './markdownHealing'
+import { splitMarkdownBlocks } from './markdownBlocks'
+import { healingCorpus } from './markdownHealingCorpus'
+
+describe('healStreamingMarkdown', () => {
+    it.each(healingCorpus)('heals: $name', ({ input, expected }) => {
+        expect(healStreamingMarkdown(input)).toBe(expected)
+    })
+
+    it.each([
+        'Plain text',
+        'Use **bold** and *italic* and `code`',
+        'See [the docs](https://example.com) and ![chart](https://x/c.png)',
+        '```ts\nconst a = 1\n```',
+        '| Name | Age |\n| --- | --- |\n| Bob | 4 |',
+        '- one\n- two',
+        '',
+    ])('leaves complete markdown unchanged: %j', (markdown) => {
+        expect(healStreamingMarkdown(markdown)).toBe(markdown)
+    })
+
+    it('only heals the last block', () => {
+        const markdown = 'Open **bold\n\n```\ncode\n```\n\nLast *one'
+
+        expect(healStreamingMarkdown(markdown)).toBe('Open **bold\n\n```\ncode\n```\n\nLast *one*')
+    })
+
+    it('closes a fence with the same marker it was opened with', () => {
+        expect(healStreamingMarkdown('~~~~py\nprint(1)')).toBe('~~~~py\nprint(1)\n~~~~')
+    })
+
+    it('keeps a shorter fence inside an open fence as content', () => {
+        expect(healStreamingMarkdown('````md\n```\nnested')).toBe('````md\n```\nnested\n````')
+    })
+})
+
+describe('splitMarkdownBlocks', () => {
+    it('splits at blank lines', () => {
+        expect(splitMarkdownBlocks('# Title\n\nIntro\n\n\nMore')).toEqual([
+            '# Title',
+            'Intro',
+            'More',
+        ])
+    })
+
+    it('keeps blank lines inside fenced code', () => {
+        expect(splitMarkdownBlocks('Intro\n\n```js\na\n\nb\n```\n\nAfter')).toEqual([
+            'Intro',
+            '```js\na\n\nb\n```',
+            'After',
+        ])
+    })
+
+    it('keeps an unclosed fence in the last block', () => {
+        expect(splitMarkdownBlocks('Intro\n\n```js\na\n\nb')).toEqual(['Intro', '```js\na\n\nb'])
+    })
+
+    it('keeps loose lists and indented continuations together', () => {
+        const list = '- one\n\n- two\n\n    indented body\n\n1. three'
+
+        expect(splitMarkdownBlocks(`${list}\n\nAfter`)).toEqual([list, 'After'])
+    })
+
+    it.each([
+        ['link definitions', 'See [docs][1]\n\n[1]: https://example.com'],
+        ['footnotes', 'Note[^1]\n\n[^1]: The note'],
+        ['HTML blocks', '<pre>\na\n\nb\n</pre>\n\nAfter'],
+    ])('returns documents with %s whole', (_, markdown) => {
+        expect(splitMarkdownBlocks(markdown)).toEqual([markdown])
+    })
+
+    it('drops empty blocks', () => {
+        expect(splitMarkdownBlocks('\n\nText\n\nMore')).toEqual(['Text', 'More'])
+        expect(splitMarkdownBlocks('')).toEqual([])
+    })
+
+    it('keeps trailing blank lines in the last block, which may still continue', () => {
+        expect(splitMarkdownBlocks('- one\n\n')).toEqual(['- one\n\n'])
+    })
+
+    it.each(healingCorpus)('healing keeps the earlier blocks: $name', ({ input, expected }) => {
+        expect(splitMarkdownBlocks(expected).slice(0, -1)).toEqual(
+            splitMarkdownBlocks(input).slice(0, -1),
+        )
+    })
+})
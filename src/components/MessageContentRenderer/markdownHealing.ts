@@ -0,0 +1,246 @@
+/**
+ * Opening or closing code fence (``` or ~~~, indented at most three spaces)
+ */
+const FENCE = /^ {0,3}(`{3,}|~{3,})/
+
+/**
+ * Lines that start a new block, which inline markup can't continue across
+ */
+const BLOCK_START = /^\s{0,3}(?:[*+-]\s|\d{1,9}[.)]\s|#{1,6}\s|>|\|)/
+
+/**
+ * Link or image at the end of the text, with its URL still streaming
+ */
+const PARTIAL_LINK_URL = /(!?)\[([^[\]\n]*)\]\([^)\n]*$/
+
+/**
+ * Link text or image alt text at the end of the text, before `]` arrived
+ */
+const PARTIAL_LINK_TEXT = /(!?)\[([^[\]\n]*)$/
+
+/**
+ * Complete image alt text at the end of the text, before `(` arrived
+ */
+const PARTIAL_IMAGE = /(!)\[([^[\]\n]*)\]$/
+
+/**
+ * GFM task list checkbox (`- [ ]`, `- [x]`), which is not a link
+ */
+const TASK_CHECKBOX = /^\s*(?:[*+-]|\d{1,9}[.)])\s+\[[ xX]\]$/
+
+/**
+ * Table delimiter row, possibly incomplete (`| --- | :-`)
+ */
+const DELIMITER_ROW = /^\s*\|?[\s:|-]*$/
+
+interface IOpenMarker {
+    marker: string
+    index: number
+}
+
+/**
+ * Splits a table row into its cells, ignoring the outer pipes
+ */
+const countTableCells = (row: string): number =>
+    row
+        .trim()
+        .replace(/^\|/, '')
+        .replace(/\|$/, '')
+        .split('|').length
+
+/**
+ * Whether a single `*` at `index` can open or close emphasis (not a list
+ * bullet, not surrounded by whitespace)
+ */
+const isEmphasisStar = (line: string, index: number): boolean => {
+    const before = line[index - 1] ?? ' '
+    const after = line[index + 1] ?? ' '
+    if (/\s/.test(before) && /\s/.test(after)) return false
+    return !/^\s*$/.test(line.slice(0, index)) || !/\s/.test(after)
+}
+
+/**
+ * Finds inline markers (code spans, `**`, `__`, `~~`, `*`) that are still open
+ * at the end of a paragraph, in the order they were opened
+ */
+const findOpenMarkers = (paragraph: string): IOpenMarker[] => {
+    const open: IOpenMarker[] = []
+    let codeSpan: IOpenMarker | null = null
+
+    const toggle = (marker: string, index: number) => {
+        const openIndex = open.map((m) => m.marker).lastIndexOf(marker)
+        if (openIndex >= 0) {
+            open.splice(openIndex, 1)
+        } else {
+            open.push({ marker, index })
+        }
+    }
+
+    for (let i = 0; i < paragraph.length; i++) {
+        const char = paragraph[i]
+
+        if (char === '`') {
+            let run = 1
+            while (paragraph[i + run] === '`') run++
+            const marker = '`'.repeat(run)
+            if (!codeSpan) {
+                codeSpan = { marker, index: i }
+            } else if (codeSpan.marker === marker) {
+                codeSpan = null
+            }
+            i += run - 1
+            continue
+        }
+        if (codeSpan) continue
+        if (char === '\\') {
+            i++
+            continue
+        }
+
+        const pair = paragraph.slice(i, i + 2)
+        if (pair === '**' || pair === '__' || pair === '~~') {
+            toggle(pair, i)
+            i++
+        } else if (char === '*') {
+            const lineStart = paragraph.lastIndexOf('\n', i - 1) + 1
+            const lineEnd = paragraph.indexOf('\n', i)
+            const line = paragraph.slice(lineStart, lineEnd === -1 ? undefined : lineEnd)
+            if (isEmphasisStar(line, i - lineStart)) toggle('*', i)
+        }
+    }
+
+    return codeSpan ? [...open, codeSpan] : open
+}
+
+/**
+ * Hides a link or image at the end of the text whose syntax isn't complete:
+ * links show their text, images are left out until they are complete
+ */
+const hidePartialLink = (text: string): string => {
+    const lastLine = text.slice(text.lastIndexOf('\n') + 1)
+    if (TASK_CHECKBOX.test(lastLine)) return text
+
+    const match =
+        PARTIAL_LINK_URL.exec(text) ?? PARTIAL_LINK_TEXT.exec(text) ?? PARTIAL_IMAGE.exec(text)
+    if (!match) return text
+
+    // Brackets inside an open code span are code, not a link
+    const before = text.slice(0, match.index)
+    if (findOpenMarkers(before).some((m) => m.marker.startsWith('`'))) return text
+
+    // Footnote references (`[^1]`) are hidden like images
+    const [, bang, label] = match
+    const hideLabel = bang !== '' || label.startsWith('^')
+    return before + (hideLabel ? '' : label)
+}
+
+/**
+ * Closes inline markup left open at the end of a paragraph. A marker with
+ * nothing after it yet is removed instead, so no raw syntax shows.
+ */
+const closeInlineMarkup = (paragraph: string): string => {
+    let text = paragraph.trimEnd()
+    let open = findOpenMarkers(text)
+
+    // Drop trailing markers that don't wrap any text yet
+    while (open.length > 0) {
+        const lastOpen = open[open.length - 1]
+        if (text.slice(lastOpen.index).replace(/[`*_~]/g, '').trim()) break
+        text = text.slice(0, lastOpen.index).trimEnd()
+        open = findOpenMarkers(text)
+    }
+
+    const closers = open
+        .map((m) => m.marker)
+        .reverse()
+        .join('')
+    return text + closers
+}
+
+/**
+ * Completes a table whose header is streaming: adds the delimiter row
+ * (or completes a partial one) so the table renders as a table right away
+ */
+const healTable = (lines: string[]): string[] => {
+    const tableStart = lines.findIndex((line) => line.trimStart().startsWith('|'))
+    if (tableStart === -1 || lines.slice(tableStart).some((l) => !l.includes('|'))) return lines
+
+    const header = lines[tableStart]
+    const delimiter = `|${' --- |'.repeat(countTableCells(header))}`
+    const delimiterLine = lines[tableStart + 1]
+
+    if (delimiterLine === undefined) {
+        return [...lines, delimiter]
+    }
+    if (
+        tableStart + 2 === lines.length &&
+        DELIMITER_ROW.test(delimiterLine) &&
+        countTableCells(delimiterLine) <= countTableCells(header)
+    ) {
+        return [...lines.slice(0, -1), delimiter]
+    }
+    return lines
+}
+
+/**
+ * Makes partially streamed markdown render the way it will once complete:
+ *
+ * - closes an unclosed code fence
+ * - adds the delimiter row of a table whose header is still streaming
+ * - closes dangling `**`, `__`, `~~`, `*` and inline code at the end
+ * - hides an incomplete link (showing its text) or image at the end
+ *
+ * Only the last block is touched, and only for display: apply this to the
+ * message that is still streaming, never to stored content.
+ *
+ * @example
+ * ```ts
+ * healStreamingMarkdown('Use **bold and [the docs](https://exa')
+ * // 'Use **bold and the docs**'
+ * ```
+ */
+export const healStreamingMarkdown = (markdown: string): string => {
+    const lines = markdown.split('\n')
+
+    // Find the open fence (if any) and where the last block starts
+    let openFence: string | null = null
+    let blockStart = 0
+    for (const [index, line] of lines.entries()) {
+        const fence = FENCE.exec(line)?.[1]
+        if (openFence) {
+            if (
+                fence &&
+                fence[0] === openFence[0] &&
+                fence.length >= openFence.length &&
+                line.trim() === fence
+            ) {
+                openFence = null
+                blockStart = index + 1
+            }
+        } else if (fence) {
+            openFence = fence
+            blockStart = index
+        } else if (line.trim() === '') {
+            blockStart = index + 1
+        }
+    }
+
+    if (openFence) {
+        return `${markdown}${markdown.endsWith('\n') ? '' : '\n'}${openFence}`
+    }
+
+    const head = lines.slice(0, blockStart)
+    let block = lines.slice(blockStart)
+    if (block.every((line) => line.trim() === '')) return markdown
+
+    // Inline markup can't span block starts (list items, headings, table rows)
+    let paragraphStart = 0
+    block.forEach((line, index) => {
+        if (BLOCK_START.test(line)) paragraphStart = index
+    })
+    const paragraph = block.slice(paragraphStart).join('\n')
+    const healed = closeInlineMarkup(hidePartialLink(paragraph))
+    block = healTable([...block.slice(0, paragraphStart), ...healed.split('\n')])
+
+    return [...head, ...block].join('\n')
+}
@@ -0,0 +1,74 @@
+/**
+ * A markdown snapshot cut off mid-stream, and how it should heal
+ */
+
+export interface IHealingCase {
+    name: string
+    /** Markdown as it looks mid-stream */
+    input: string
+    /** What healStreamingMarkdown should turn it into */
+    expected: string
+}
+
+/**
+ * Truncated markdown snapshots, checked by the unit tests and shown side by
+ * side in the Markdown Healing story
+ */
+export const healingCorpus: IHealingCase[] = [
+    { name: 'Unclosed bold', input: 'Use **bold', expected: 'Use **bold**' },
+    { name: 'Bold marker only', input: 'Hello **', expected: 'Hello' },
+    { name: 'Unclosed italic', input: 'Hello *it', expected: 'Hello *it*' },
+    { name: 'Unclosed strikethrough', input: 'a ~~strike', expected: 'a ~~strike~~' },
+    { name: 'Unclosed inline code', input: 'call `foo(', expected: 'call `foo(`' },
+    { name: 'Bracket inside inline code', input: 'call `arr[0', expected: 'call `arr[0`' },
+    { name: 'Nested bold and code', input: '**bold `code', expected: '**bold `code`**' },
+    { name: 'Multiplication is not emphasis', input: '2 * 3 = 6', expected: '2 * 3 = 6' },
+    { name: 'Escaped star', input: 'escaped \\*star', expected: 'escaped \\*star' },
+    { name: 'List bullet', input: '* bullet', expected: '* bullet' },
+    {
+        name: 'Bold in the last list item',
+        input: '- item one\n- item **two',
+        expected: '- item one\n- item **two**',
+    },
+    { name: 'Bold in a heading', input: '# Heading **b', expected: '# Heading **b**' },
+    {
+        name: 'Only the last paragraph is healed',
+        input: 'Para one **x**\n\nPara *two',
+        expected: 'Para one **x**\n\nPara *two*',
+    },
+    {
+        name: 'Unclosed code fence',
+        input: '```ts\nconst a = 1',
+        expected: '```ts\nconst a = 1\n```',
+    },
+    {
+        name: 'Unclosed code fence ending in a newline',
+        input: '```ts\nconst a = 1\n',
+        expected: '```ts\nconst a = 1\n```',
+    },
+    {
+        name: 'Table header only',
+        input: '| Name | Age |',
+        expected: '| Name | Age |\n| --- | --- |',
+    },
+    {
+        name: 'Partial delimiter row',
+        input: '| Name | Age |\n| --- | -',
+        expected: '| Name | Age |\n| --- | --- |',
+    },
+    {
+        name: 'Partial table row',
+        input: '| Name | Age |\n| --- | --- |\n| Bob | 4',
+        expected: '| Name | Age |\n| --- | --- |\n| Bob | 4',
+    },
+    {
+        name: 'Link with partial URL',
+        input: 'Use **bold and [the docs](https://exa',
+        expected: 'Use **bold and the docs**',
+    },
+    { name: 'Unclosed link text', input: 'See [docs', expected: 'See docs' },
+    { name: 'Image with partial URL', input: 'See ![chart](https://x', expected: 'See' },
+    { name: 'Image before its URL', input: 'See ![chart]', expected: 'See' },
+    { name: 'Partial footnote reference', input: 'Note[^1', expected: 'Note' },
+    { name: 'Task list checkbox', input: '- [ ]', expected: '- [ ]' },
+]
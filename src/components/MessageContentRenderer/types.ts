@@ -2,5 +2,7 @@ import type { IMessage, ChatTheme } from '../../types'
 
 export interface IMessageContentRendererProps {
     message: IMessage
+    /** Whether the message is still streaming; partial markdown at its end is healed */
+    isStreaming?: boolean
     theme?: Partial<ChatTheme>
 }
@@ -0,0 +1,96 @@
+import React, { useEffect, useId, useState } from 'react'
+import { ChevronDownIcon, ChevronUpIcon, LightBulbIcon } from '@heroicons/react/24/outline'
+import type { IReasoningBlockProps } from './types'
+import { useChatTheme } from '../../context'
+
+/**
+ * Thinking time as `12s` or `1m 5s`
+ */
+const formatDuration = (milliseconds: number): string => {
+    const seconds = Math.max(1, Math.round(milliseconds / 1000))
+    if (seconds < 60) return `${seconds}s`
+    return `${Math.floor(seconds / 60)}m ${seconds % 60}s`
+}
+
+/**
+ * Shows what the model thought before answering, as a collapsible block.
+ * It is open while the model thinks, with the time counting up, and
+ * collapses when the answer starts unless the user toggled it.
+ */
+export const ReasoningBlock: React.FC<IReasoningBlockProps> = ({
+    segment,
+    isThinking = false,
+    theme,
+}) => {
+    const fullTheme = useChatTheme(theme)
+    const colors = fullTheme.colors
+    // `null` until the user toggles the block, so it follows `isThinking`
+    const [expandedByUser, setExpandedByUser] = useState<boolean | null>(null)
+    const [now, setNow] = useState(() => Date.now())
+    const bodyId = useId()
+    const expanded = expandedByUser ?? isThinking
+
+    // Tick the elapsed time while thinking
+    useEffect(() => {
+        if (!isThinking) return
+        setNow(Date.now())
+        const timer = setInterval(() => setNow(Date.now()), 1000)
+        return () => clearInterval(timer)
+    }, [isThinking])
+
+    const startedAt = segment.startedAt?.getTime()
+    const endedAt = isThinking ? now : segment.completedAt?.getTime()
+    const elapsed =
+        startedAt !== undefined && endedAt !== undefined ? endedAt - startedAt : undefined
+    // The live count starts at one second
+    const duration =
+        elapsed !== undefined && (!isThinking || elapsed >= 1000)
+            ? formatDuration(elapsed)
+            : undefined
+
+    let label = 'Thoughts'
+    if (isThinking) label = duration ? `Thinking… ${duration}` : 'Thinking…'
+    else if (duration) label = `Thought for ${duration}`
+
+    return (
+        <div className='my-3'>
+            <button
+                onClick={() => setExpandedByUser(!expanded)}
+                className='flex items-center gap-2 px-3 py-2 rounded-xl text-sm transition-all border max-w-full'
+                style={{
+                    backgroundColor: colors.toolContainerBg,
+                    borderColor: colors.toolContainerBorder,
+                    color: colors.textMuted,
+                }}
+                aria-expanded={expanded}
+                aria-controls={bodyId}
+                type='button'
+            >
+                <LightBulbIcon
+                    className={isThinking ? 'w-4 h-4 shrink-0 animate-pulse' : 'w-4 h-4 shrink-0'}
+                    aria-hidden='true'
+                />
+                <span className='font-medium truncate'>{label}</span>
+                {expanded ? (
+                    <ChevronUpIcon className='w-4 h-4 ml-auto shrink-0' aria-hidden='true' />
+                ) : (
+                    <ChevronDownIcon className='w-4 h-4 ml-auto shrink-0' aria-hidden='true' />
+                )}
+            </button>
+            {expanded && (
+                <div
+                    id={bodyId}
+                    className='mt-2 pl-3 border-l-2 text-xs md:text-sm whitespace-pre-wrap wrap-break-word'
+                    style={{
+                        borderColor: colors.toolContainerBorder,
+                        color: colors.assistantMessageTextSecondary,
+                    }}
+                >
+                    {segment.content}
+                </div>
+            )}
+        </div>
+    )
+}
+
+export type { IReasoningBlockProps } from './types'
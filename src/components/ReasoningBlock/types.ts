@@ -0,0 +1,8 @@
+import type { IReasoningSegment, ChatTheme } from '../../types'
+
+export interface IReasoningBlockProps {
+    segment: IReasoningSegment
+    /** Whether the model is still thinking; the block is open and its time counts up */
+    isThinking?: boolean
+    theme?: Partial<ChatTheme>
+}
@@ -1,7 +1,7 @@
 import React from 'react'
 import { SparklesIcon, ArrowRightIcon } from '@heroicons/react/24/solid'
 import type { ISuggestedQuestionsProps } from './types'
-import { mergeTheme } from '../../theme'
+import { useChatTheme } from '../../context'
 
 // Mock suggested questions - will be replaced with dynamic data later
 const MOCK_SUGGESTIONS = [
@@ -14,7 +14,7 @@ export const SuggestedQuestions: React.FC<ISuggestedQuestionsProps> = ({
     onQuestionClick,
     theme,
 }) => {
-    const fullTheme = mergeTheme(theme)
+    const fullTheme = useChatTheme(theme)
     const colors = fullTheme.colors
 
     return (
@@ -0,0 +1,108 @@
+import React, { useId, useState } from 'react'
+import {
+    ArrowPathIcon,
+    CheckCircleIcon,
+    ChevronDownIcon,
+    ChevronUpIcon,
+    WrenchScrewdriverIcon,
+    XCircleIcon,
+} from '@heroicons/react/24/outline'
+import type { IToolOutputProps } from './types'
+import { useChatConfig, useChatTheme } from '../../context'
+import { DefaultToolRenderer } from '../DefaultToolRenderer'
+import { MessageErrorBoundary } from '../ErrorBoundary'
+
+/**
+ * Renders a single tool call through the tool renderer registry.
+ * Inline tools render in place; all others render as a collapsible card.
+ */
+export const ToolOutput: React.FC<IToolOutputProps> = ({ tool, theme }) => {
+    const fullTheme = useChatTheme(theme)
+    const colors = fullTheme.colors
+    const { toolRegistry } = useChatConfig()
+    const [expanded, setExpanded] = useState(false)
+    const bodyId = useId()
+
+    if (!tool.visible || toolRegistry.isHidden(tool.toolName)) {
+        return null
+    }
+
+    const Renderer = toolRegistry.getRenderer(tool.toolName) ?? DefaultToolRenderer
+    const isRunning = tool.status === 'running'
+    const rendered = (
+        <MessageErrorBoundary>
+            <Renderer
+                output={tool.output}
+                title={tool.title}
+                theme={fullTheme}
+                toolName={tool.toolName}
+                input={tool.input}
+                status={tool.status}
+            />
+        </MessageErrorBoundary>
+    )
+
+    if (toolRegistry.isInline(tool.toolName)) {
+        return <div className='my-3'>{rendered}</div>
+    }
+
+    const friendlyName = toolRegistry.getFriendlyName(tool.toolName, tool.friendlyName)
+
+    return (
+        <div className='my-3'>
+            <button
+                onClick={() => setExpanded(!expanded)}
+                className='flex items-center gap-2 px-3 py-2 rounded-xl text-sm transition-all border max-w-full'
+                style={{
+                    backgroundColor: colors.toolContainerBg,
+                    borderColor: colors.toolContainerBorder,
+                    color: colors.textMuted,
+                }}
+                aria-expanded={expanded}
+                aria-controls={bodyId}
+                type='button'
+            >
+                <WrenchScrewdriverIcon className='w-4 h-4 shrink-0' aria-hidden='true' />
+                <span className='font-medium truncate'>{friendlyName}</span>
+                {tool.title && tool.title !== friendlyName && (
+                    <span className='truncate' style={{ color: colors.assistantMessageTextSecondary }}>
+                        {tool.title}
+                    </span>
+                )}
+                {isRunning && (
+                    <ArrowPathIcon
+                        className='w-4 h-4 shrink-0 animate-spin'
+                        style={{ color: colors.info }}
+                        aria-label='Running'
+                    />
+                )}
+                {tool.status === 'done' && (
+                    <CheckCircleIcon
+                        className='w-4 h-4 shrink-0'
+                        style={{ color: colors.success }}
+                        aria-label='Completed'
+                    />
+                )}
+                {tool.status === 'failed' && (
+                    <XCircleIcon
+                        className='w-4 h-4 shrink-0'
+                        style={{ color: colors.error }}
+                        aria-label='Failed'
+                    />
+                )}
+                {expanded ? (
+                    <ChevronUpIcon className='w-4 h-4 ml-auto shrink-0' aria-hidden='true' />
+                ) : (
+                    <ChevronDownIcon className='w-4 h-4 ml-auto shrink-0' aria-hidden='true' />
+                )}
+            </button>
+            {expanded && (
+                <div id={bodyId} className='mt-2'>
+                    {rendered}
+                </div>
+            )}
+        </div>
+    )
+}
+
+export type { IToolOutputProps } from './types'
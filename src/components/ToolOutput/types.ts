@@ -0,0 +1,6 @@
+import type { IToolOutput, ChatTheme } from '../../types'
+
+export interface IToolOutputProps {
+    tool: IToolOutput
+    theme?: Partial<ChatTheme>
+}
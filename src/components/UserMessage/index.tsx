@@ -1,17 +1,98 @@
 import React, { useState } from 'react'
 import ReactMarkdown from 'react-markdown'
 import remarkGfm from 'remark-gfm'
-import { ChevronDownIcon, ChevronUpIcon, DocumentIcon } from '@heroicons/react/24/outline'
+import {
+    ChevronDownIcon,
+    ChevronLeftIcon,
+    ChevronRightIcon,
+    ChevronUpIcon,
+    DocumentIcon,
+    PencilIcon,
+} from '@heroicons/react/24/outline'
 import type { IUserMessageProps } from './types'
 import { markdownComponents } from '../markdownComponents'
-import { mergeTheme } from '../../theme'
+import { useChatTheme } from '../../context'
 import { ChecksIcon } from '../../assets'
 
-export const UserMessage: React.FC<IUserMessageProps> = ({ message, hasReply = false, theme }) => {
+export const UserMessage: React.FC<IUserMessageProps> = ({
+    message,
+    hasReply = false,
+    onEdit,
+    onSelectBranch,
+    theme,
+}) => {
     const [showPdfs, setShowPdfs] = useState(false)
-    const fullTheme = mergeTheme(theme)
+    const [draft, setDraft] = useState<string | null>(null)
+    const fullTheme = useChatTheme(theme)
     const colors = fullTheme.colors
 
+    const branchCount = message.branches?.length ?? 0
+    const branchIndex = message.branchIndex ?? 0
+    const showBranches = Boolean(onSelectBranch) && branchCount > 1
+    const showBranch = (index: number) => onSelectBranch?.(message.id, index)
+
+    const saveEdit = () => {
+        if (draft === null || !draft.trim()) return
+        if (draft !== message.content) onEdit?.(message.id, draft)
+        setDraft(null)
+    }
+
+    const editButtonStyle = {
+        backgroundColor: colors.userMessageAttachmentBg,
+        borderColor: colors.userMessageAttachmentBorder,
+        color: colors.userMessageText,
+    }
+
+    if (draft !== null) {
+        return (
+            <div className='relative mb-3 md:mb-4 ml-auto w-full max-w-[90%] md:max-w-[85%]'>
+                <div
+                    className='px-4 py-2.5 md:px-5 md:py-3 shadow-lg rounded-xl rounded-tr-none rounded-br-xl'
+                    style={{
+                        background: `linear-gradient(to bottom right, ${colors.userMessageGradientFrom}, ${colors.userMessageGradientVia}, ${colors.userMessageGradientTo})`,
+                    }}
+                >
+                    {/* Enter saves, Shift+Enter adds a line, Escape cancels */}
+                    <textarea
+                        autoFocus
+                        value={draft}
+                        rows={Math.min(Math.max(draft.split('\n').length, 2), 10)}
+                        aria-label='Edit message'
+                        onChange={(e) => setDraft(e.target.value)}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter' && !e.shiftKey) {
+                                e.preventDefault()
+                                saveEdit()
+                            }
+                            if (e.key === 'Escape') setDraft(null)
+                        }}
+                        className='w-full resize-none bg-transparent leading-relaxed text-sm md:text-base focus:outline-none'
+                        style={{ color: colors.userMessageText }}
+                    />
+                    <div className='flex justify-end gap-2 mt-2'>
+                        <button
+                            type='button'
+                            onClick={() => setDraft(null)}
+                            className='px-3 py-1 rounded-lg text-sm border'
+                            style={editButtonStyle}
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            type='button'
+                            onClick={saveEdit}
+                            disabled={!draft.trim()}
+                            className='px-3 py-1 rounded-lg text-sm font-medium border disabled:opacity-50'
+                            style={editButtonStyle}
+                        >
+                            Send
+                        </button>
+                    </div>
+                </div>
+            </div>
+        )
+    }
+
     return (
         <div className='relative mb-3 md:mb-4 ml-auto w-fit max-w-[90%] md:max-w-[85%]'>
             <div className='flex justify-end'>
@@ -28,7 +109,7 @@ export const UserMessage: React.FC<IUserMessageProps> = ({ message, hasReply = f
                     >
                         <ReactMarkdown
                             remarkPlugins={[remarkGfm]}
-                            components={markdownComponents(theme, 'user')}
+                            components={markdownComponents(fullTheme, 'user')}
                         >
                             {message.content.replace(/<br\s*\/?>/gi, '\n\n')}
                         </ReactMarkdown>
@@ -116,6 +197,54 @@ export const UserMessage: React.FC<IUserMessageProps> = ({ message, hasReply = f
                     )}
                 </div>
             </div>
+
+            {(showBranches || onEdit) && (
+                <div
+                    className='flex justify-end items-center gap-2 mt-1 text-xs'
+                    style={{ color: colors.textTertiary }}
+                >
+                    {showBranches && (
+                        <div
+                            role='group'
+                            aria-label={`Version ${branchIndex + 1} of ${branchCount}`}
+                            className='flex items-center gap-0.5'
+                        >
+                            <button
+                                type='button'
+                                onClick={() => showBranch(branchIndex - 1)}
+                                disabled={branchIndex === 0}
+                                aria-label='Previous version'
+                                className='p-0.5 rounded disabled:opacity-40'
+                            >
+                                <ChevronLeftIcon className='w-3.5 h-3.5' />
+                            </button>
+                            <span aria-hidden='true' className='tabular-nums'>
+                                {branchIndex + 1} / {branchCount}
+                            </span>
+                            <button
+                                type='button'
+                                onClick={() => showBranch(branchIndex + 1)}
+                                disabled={branchIndex === branchCount - 1}
+                                aria-label='Next version'
+                                className='p-0.5 rounded disabled:opacity-40'
+                            >
+                                <ChevronRightIcon className='w-3.5 h-3.5' />
+                            </button>
+                        </div>
+                    )}
+                    {onEdit && (
+                        <button
+                            type='button'
+                            onClick={() => setDraft(message.content)}
+                            aria-label='Edit message'
+                            title='Edit'
+                            className='p-0.5 rounded'
+                        >
+                            <PencilIcon className='w-3.5 h-3.5' />
+                        </button>
+                    )}
+                </div>
+            )}
         </div>
     )
 }
@@ -3,5 +3,7 @@ import type { IMessage, ChatTheme } from '../../types'
 export interface IUserMessageProps {
     message: IMessage
     hasReply?: boolean
+    onEdit?: (messageId: string, content: string) => void // Shows an Edit action
+    onSelectBranch?: (messageId: string, branchIndex: number) => void // Shows a branch switcher
     theme?: Partial<ChatTheme>
 }
@@ -17,7 +17,7 @@ const ALLOWED_URL_PROTOCOLS = ['http:', 'https:', 'mailto:', 'tel:']
  * @param url - The URL to sanitize
  * @returns The sanitized URL or undefined if the URL is not safe
  */
-const sanitizeUrl = (url: string | undefined): string | undefined => {
+export const sanitizeUrl = (url: string | undefined): string | undefined => {
     if (!url) return undefined
 
     // Handle relative URLs (they're safe)
@@ -1,7 +1,7 @@
 import React, { useState, useRef, useEffect } from 'react'
 import type { IModelOption } from '../../../hooks/useModelSelection'
 import type { ChatTheme } from '../../../types'
-import { mergeTheme } from '../../../theme'
+import { useChatTheme } from '../../../context'
 
 export interface IModelSelectorProps {
     availableModels: IModelOption[]
@@ -18,7 +18,7 @@ export const ModelSelector: React.FC<IModelSelectorProps> = ({
     disabled = false,
     theme,
 }) => {
-    const fullTheme = mergeTheme(theme)
+    const fullTheme = useChatTheme(theme)
     const colors = fullTheme.colors
     const [showDropdown, setShowDropdown] = useState(false)
     const dropdownRef = useRef<HTMLDivElement>(null)
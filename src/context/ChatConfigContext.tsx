@@ -1,17 +1,108 @@
 import React, { createContext, useContext, useMemo } from 'react'
-import type { ChatTheme } from '../types'
+import type { ChatTheme, FinishReason, IPdfFile, ToolCallStatus } from '../types'
+import { mergeTheme } from '../theme'
+import type { ISSEMessage } from '../utils/streaming'
 
 /**
  * Stream event from the backend
+ *
+ * Tool calls are correlated by `tool_call_id`:
+ * - `tool_start` - a tool call began streaming (name and id known, arguments may not be)
+ * - `tool_call` - the complete call with its `arguments`
+ * - `tool_result` - the `result` of a call (set `is_error` for failures)
+ * - `tool_end` - legacy combined completion event carrying `output`
+ *
+ * `done` reports why the model stopped (`finish_reason`). It may arrive
+ * more than once, e.g. after each tool-calling round.
+ *
+ * `usage` reports the tokens used so far by the response. Counts are
+ * running totals: each replaces the one reported before.
+ *
+ * `reasoning` streams what the model thinks before answering, as `content`.
+ * Thinking ends when the answer text or a tool call starts.
+ *
+ * `citation` adds a source the answer cites with `[citation_id]` markers; a
+ * citation with an id already sent replaces it.
  */
 export interface IStreamEvent {
-    type: 'llm_token' | 'tool_content' | 'tool_start' | 'tool_end' | 'error'
+    type:
+        | 'llm_token'
+        | 'tool_content'
+        | 'tool_start'
+        | 'tool_call'
+        | 'tool_result'
+        | 'tool_end'
+        | 'error'
+        | 'done'
+        | 'usage'
+        | 'reasoning'
+        | 'citation'
     content?: string
     tool_name?: string
+    /** Identifies a tool call across its start, call and result events */
+    tool_call_id?: string
+    /** Arguments the tool was called with (JSON string), for `tool_call` */
+    arguments?: string
+    /** Tool result (usually a JSON string), for `tool_result` */
+    result?: string
+    /** Tool output, for legacy `tool_end` events */
     output?: string
     message?: string
     title?: string
+    /** Tool input, for legacy `tool_start` events */
     input?: string
+    /** Marks a `tool_result` or `tool_end` event as a failed tool call */
+    is_error?: boolean
+    /** Why the model stopped, for `done` */
+    finish_reason?: FinishReason
+    /** Safety categories that blocked the answer, for `done` with `'content_filter'` */
+    blocked_categories?: string[]
+    /** Prompt tokens used by the response, for `usage` */
+    input_tokens?: number
+    /** Tokens generated by the response, for `usage` */
+    output_tokens?: number
+    /** Id the answer's `[id]` markers use, for `citation` (default: its position, from 1) */
+    citation_id?: string
+    /** Link to the source, for `citation` */
+    url?: string
+    /** Passage of the source, for `citation` */
+    snippet?: string
+    /** Uuid of the cited document, e.g. an uploaded PDF, for `citation` */
+    document_uuid?: string
+    /** Cited page of the document, for `citation` */
+    page?: number
+}
+
+/**
+ * Props passed to every tool renderer component
+ */
+export interface IToolRendererComponentProps {
+    /** The output from the tool (usually a JSON string) */
+    output: string
+    /** Optional title for the tool output */
+    title?: string
+    /** The resolved theme (for styling) */
+    theme: Required<ChatTheme>
+    /** The raw tool name the renderer was registered for */
+    toolName: string
+    /** Arguments the tool was called with, if known */
+    input?: string
+    /** Lifecycle status of the tool call, if known */
+    status?: ToolCallStatus
+}
+
+/**
+ * Resolved lookups over the tool renderer configuration
+ */
+export interface IToolRegistry {
+    /** Returns the registered renderer for a tool, if any */
+    getRenderer: (toolName: string) => React.ComponentType<IToolRendererComponentProps> | undefined
+    /** Whether the tool is rendered inline rather than in a collapsible card */
+    isInline: (toolName: string) => boolean
+    /** Whether the tool is hidden from the UI */
+    isHidden: (toolName: string) => boolean
+    /** Display name from `toolNameMapping`, falling back to the given name */
+    getFriendlyName: (toolName: string, fallback?: string) => string
 }
 
 /**
@@ -23,9 +114,13 @@ export interface IChatConfig {
      * Event adapter to transform backend events to IStreamEvent
      * Use this if your backend has a different event format
      * @param rawEvent - The raw event from your backend
-     * @returns IStreamEvent or null if the event should be ignored
+     * @param message - The SSE record (event name, raw data, last id) when streamed over SSE
+     * @returns IStreamEvent, an array of events, or null if the event should be ignored
      */
-    eventAdapter?: (rawEvent: unknown) => IStreamEvent | null
+    eventAdapter?: (
+        rawEvent: unknown,
+        message?: ISSEMessage,
+    ) => IStreamEvent | IStreamEvent[] | null
 
     /**
      * Custom icons for the chat UI
@@ -40,24 +135,71 @@ export interface IChatConfig {
      * Theme customization
      */
     theme?: Partial<ChatTheme>
+
+    /**
+     * Custom renderers for tool outputs, keyed by tool name.
+     * Unregistered tools fall back to a generic JSON/text renderer.
+     */
+    toolRenderers?: Record<string, React.ComponentType<IToolRendererComponentProps>>
+
+    /**
+     * Tools rendered inline within the message instead of in a collapsible card
+     */
+    inlineTools?: string[]
+
+    /**
+     * Map of tool names to friendly display names
+     */
+    toolNameMapping?: Record<string, string>
+
+    /**
+     * Tools that are never shown in the UI
+     */
+    hiddenTools?: string[]
+
+    /**
+     * URL of an uploaded PDF, at `page` if given. Citations of an attached
+     * PDF link to it; without a URL they show the file name only.
+     */
+    getPdfUrl?: (file: IPdfFile, page?: number) => string | undefined
 }
 
 /**
  * Default event adapter that expects events in the standard format
  * Use this as a reference when implementing your own adapter
+ *
+ * The event type is read from the payload's `type`, falling back to the SSE
+ * `event:` name so backends can send `event: llm_token` with a bare payload.
  */
-export const defaultEventAdapter = (event: unknown): IStreamEvent | null => {
+export const defaultEventAdapter = (
+    event: unknown,
+    message?: ISSEMessage,
+): IStreamEvent | null => {
     if (typeof event !== 'object' || event === null) return null
     const e = event as Record<string, unknown>
-    if (!e.type) return null
+    const type = e.type ?? (message?.event !== 'message' ? message?.event : undefined)
+    if (!type) return null
     return {
-        type: e.type as IStreamEvent['type'],
+        type: type as IStreamEvent['type'],
         content: e.content as string | undefined,
         tool_name: e.tool_name as string | undefined,
+        tool_call_id: e.tool_call_id as string | undefined,
+        arguments: e.arguments as string | undefined,
+        result: e.result as string | undefined,
         output: e.output as string | undefined,
         message: e.message as string | undefined,
         title: e.title as string | undefined,
         input: e.input as string | undefined,
+        is_error: e.is_error as boolean | undefined,
+        finish_reason: e.finish_reason as FinishReason | undefined,
+        blocked_categories: e.blocked_categories as string[] | undefined,
+        input_tokens: e.input_tokens as number | undefined,
+        output_tokens: e.output_tokens as number | undefined,
+        citation_id: e.citation_id as string | undefined,
+        url: e.url as string | undefined,
+        snippet: e.snippet as string | undefined,
+        document_uuid: e.document_uuid as string | undefined,
+        page: e.page as number | undefined,
     }
 }
 
@@ -68,6 +210,11 @@ const defaultConfig: IChatConfig = {
     eventAdapter: defaultEventAdapter,
     icons: {},
     theme: {},
+    toolRenderers: {},
+    inlineTools: [],
+    toolNameMapping: {},
+    hiddenTools: [],
+    getPdfUrl: () => undefined,
 }
 
 /**
@@ -75,6 +222,27 @@ const defaultConfig: IChatConfig = {
  */
 interface IChatConfigContextValue {
     config: Required<IChatConfig>
+    toolRegistry: IToolRegistry
+}
+
+/**
+ * Builds the tool registry lookups for a resolved configuration
+ */
+const createToolRegistry = (config: Required<IChatConfig>): IToolRegistry => {
+    const inlineTools = new Set(config.inlineTools)
+    const hiddenTools = new Set(config.hiddenTools)
+    return {
+        getRenderer: (toolName) => config.toolRenderers[toolName],
+        isInline: (toolName) => inlineTools.has(toolName),
+        isHidden: (toolName) => hiddenTools.has(toolName),
+        getFriendlyName: (toolName, fallback) =>
+            config.toolNameMapping[toolName] ?? fallback ?? toolName,
+    }
+}
+
+const defaultContextValue: IChatConfigContextValue = {
+    config: defaultConfig as Required<IChatConfig>,
+    toolRegistry: createToolRegistry(defaultConfig as Required<IChatConfig>),
 }
 
 const ChatConfigContext = createContext<IChatConfigContextValue | null>(null)
@@ -84,9 +252,29 @@ export interface IChatConfigProviderProps {
     children: React.ReactNode
 }
 
+/**
+ * Deep-merges a child configuration onto its parent.
+ * Values defined on the child win; maps are merged key by key and tool lists are combined.
+ */
+const mergeConfig = (
+    parent: Required<IChatConfig>,
+    config: IChatConfig,
+): Required<IChatConfig> => ({
+    eventAdapter: config.eventAdapter ?? parent.eventAdapter,
+    icons: { ...parent.icons, ...config.icons },
+    theme: { colors: { ...parent.theme.colors, ...config.theme?.colors } },
+    toolRenderers: { ...parent.toolRenderers, ...config.toolRenderers },
+    inlineTools: [...new Set([...parent.inlineTools, ...(config.inlineTools ?? [])])],
+    toolNameMapping: { ...parent.toolNameMapping, ...config.toolNameMapping },
+    hiddenTools: [...new Set([...parent.hiddenTools, ...(config.hiddenTools ?? [])])],
+    getPdfUrl: config.getPdfUrl ?? parent.getPdfUrl,
+})
+
 /**
  * Provider component for chat configuration
- * Wrap your chat components with this to provide custom configuration
+ * Wrap your chat components with this to provide custom configuration.
+ * Nested providers deep-merge with their parent, so one app can host several
+ * differently-configured panels.
  *
  * @example
  * ```tsx
@@ -102,16 +290,17 @@ export const ChatConfigProvider: React.FC<IChatConfigProviderProps> = ({
     config = {},
     children,
 }) => {
+    const parent = useChatConfig()
+
     const mergedConfig = useMemo<Required<IChatConfig>>(
-        () => ({
-            eventAdapter: config.eventAdapter ?? defaultConfig.eventAdapter!,
-            icons: config.icons ?? defaultConfig.icons!,
-            theme: config.theme ?? defaultConfig.theme!,
-        }),
-        [config],
+        () => mergeConfig(parent.config, config),
+        [parent.config, config],
     )
 
-    const value = useMemo<IChatConfigContextValue>(() => ({ config: mergedConfig }), [mergedConfig])
+    const value = useMemo<IChatConfigContextValue>(
+        () => ({ config: mergedConfig, toolRegistry: createToolRegistry(mergedConfig) }),
+        [mergedConfig],
+    )
 
     return <ChatConfigContext.Provider value={value}>{children}</ChatConfigContext.Provider>
 }
@@ -123,14 +312,29 @@ export const ChatConfigProvider: React.FC<IChatConfigProviderProps> = ({
  * @example
  * ```tsx
  * const { config } = useChatConfig()
- * const AssistantIcon = config.icons.assistant
+ * const StopIcon = config.icons.stop
  * ```
  */
 export const useChatConfig = (): IChatConfigContextValue => {
     const context = useContext(ChatConfigContext)
     if (!context) {
         // Return default config if used outside provider
-        return { config: defaultConfig as Required<IChatConfig> }
+        return defaultContextValue
     }
     return context
 }
+
+/**
+ * Hook to resolve the effective theme for a component.
+ * The `theme` prop (if any) is layered over the provider theme, which is
+ * layered over `defaultTheme`.
+ *
+ * @example
+ * ```tsx
+ * const { colors } = useChatTheme(props.theme)
+ * ```
+ */
+export const useChatTheme = (theme?: Partial<ChatTheme>): Required<ChatTheme> => {
+    const { config } = useChatConfig()
+    return useMemo(() => mergeTheme(theme, mergeTheme(config.theme)), [theme, config.theme])
+}
@@ -1,3 +1,15 @@
-export { ChatConfigProvider, useChatConfig, defaultEventAdapter } from './ChatConfigContext'
+export {
+    ChatConfigProvider,
+    useChatConfig,
+    useChatTheme,
+    defaultEventAdapter,
+} from './ChatConfigContext'
+export { useAssistantIcon } from './useAssistantIcon'
 
-export type { IChatConfig, IChatConfigProviderProps, IStreamEvent } from './ChatConfigContext'
+export type {
+    IChatConfig,
+    IChatConfigProviderProps,
+    IStreamEvent,
+    IToolRendererComponentProps,
+    IToolRegistry,
+} from './ChatConfigContext'
@@ -0,0 +1,18 @@
+import type React from 'react'
+import { AssistantIcon } from '../assets'
+import { useChatConfig } from './ChatConfigContext'
+
+/**
+ * Hook to get the assistant icon: `icons.assistant` from the configuration,
+ * or the default `AssistantIcon`
+ *
+ * @example
+ * ```tsx
+ * const Icon = useAssistantIcon()
+ * return <Icon className='w-8 h-8' />
+ * ```
+ */
+export const useAssistantIcon = (): React.ComponentType<React.SVGProps<SVGSVGElement>> => {
+    const { config } = useChatConfig()
+    return config.icons.assistant ?? AssistantIcon
+}
@@ -0,0 +1,208 @@
+// @vitest-environment jsdom
+import { act, renderHook } from '@testing-library/react'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { useChatMessages } from './useChatMessages'
+import type { ISendMessageParams, IUseChatMessagesOptions } from './useChatMessages'
+import type { IStreamEvent } from '../context/ChatConfigContext'
+import type { IMessage } from '../types'
+import { getMessageVersions } from '../utils/messageVersions'
+
+const message = (id: string, role: IMessage['role'] = 'user'): IMessage => ({
+    id,
+    role,
+    content: id,
+    timestamp: new Date(0),
+})
+
+const renderChat = (options: Partial<IUseChatMessagesOptions> = {}) =>
+    renderHook(() =>
+        useChatMessages({
+            sendMessageToApi: vi.fn(),
+            updateInterval: 0,
+            ...options,
+        }),
+    )
+
+/**
+ * A `sendMessageToApi` that keeps each request open until the test ends it
+ * with `answer`, `fail` or `close`
+ */
+const createBackend = () => {
+    const requests: ISendMessageParams[] = []
+    const pending: Array<() => void> = []
+    const latest = () => requests[requests.length - 1]
+    const end = async (report: () => void) => {
+        await act(async () => {
+            report()
+            pending.shift()?.()
+        })
+    }
+    return {
+        requests,
+        sendMessageToApi: (params: ISendMessageParams) => {
+            requests.push(params)
+            return new Promise<void>((resolve) => pending.push(resolve))
+        },
+        answer: (content: string) =>
+            end(() => {
+                latest().onEvent({ type: 'llm_token', content })
+                latest().onComplete()
+            }),
+        fail: () => end(() => latest().onError(new Error('Upstream failed'))),
+        emit: (event: IStreamEvent) => act(() => latest().onEvent(event)),
+        close: () => end(() => {}),
+    }
+}
+
+describe('useChatMessages', () => {
+    afterEach(() => {
+        vi.restoreAllMocks()
+    })
+
+    describe('loadOlder', () => {
+        it('prepends a page and keeps its hasMore', async () => {
+            const loadOlderMessages = vi.fn(async () => ({
+                messages: [message('a'), message('b', 'assistant')],
+                hasMore: true,
+            }))
+            const { result } = renderChat({ loadOlderMessages, initialMessages: [message('c')] })
+
+            await act(() => result.current.loadOlder())
+
+            expect(result.current.messages.map((m) => m.id)).toEqual(['a', 'b', 'c'])
+            expect(result.current.hasMore).toBe(true)
+            expect(loadOlderMessages).toHaveBeenCalledWith(expect.objectContaining({ id: 'c' }))
+        })
+
+        it('stops loading after a page fails', async () => {
+            vi.spyOn(console, 'error').mockImplementation(() => {})
+            const loadOlderMessages = vi.fn(async () => {
+                throw new Error('offline')
+            })
+            const { result } = renderChat({ loadOlderMessages })
+
+            await act(() => result.current.loadOlder())
+            await act(() => result.current.loadOlder())
+
+            expect(loadOlderMessages).toHaveBeenCalledTimes(1)
+            expect(result.current.hasMore).toBe(false)
+            expect(result.current.isLoadingOlder).toBe(false)
+        })
+
+        it('stops loading after a page of messages that are already shown', async () => {
+            const loadOlderMessages = vi.fn(async () => ({
+                messages: [message('c')],
+                hasMore: true,
+            }))
+            const { result } = renderChat({ loadOlderMessages, initialMessages: [message('c')] })
+
+            await act(() => result.current.loadOlder())
+
+            expect(result.current.messages.map((m) => m.id)).toEqual(['c'])
+            expect(result.current.hasMore).toBe(false)
+        })
+    })
+
+    describe('rerunning an earlier answer', () => {
+        const renderConversation = async () => {
+            const backend = createBackend()
+            const chat = renderChat({ sendMessageToApi: backend.sendMessageToApi })
+            const ask = (content: string) =>
+                act(async () => {
+                    void chat.result.current.sendMessage(content, 'model')
+                })
+            return { ...backend, ...chat, ask }
+        }
+
+        it('regenerates it as a new version and leaves later messages alone', async () => {
+            const { result, requests, ask, answer } = await renderConversation()
+            await ask('Q1')
+            await answer('A1')
+            await ask('Q2')
+            await answer('A2')
+            const ids = result.current.messages.map((m) => m.id)
+
+            await act(async () => {
+                void result.current.regenerate(ids[1])
+            })
+            await answer('A1 again')
+
+            expect(requests[2]).toMatchObject({ userInput: 'Q1', messages: [] })
+            expect(result.current.messages.map((m) => m.id)).toEqual(ids)
+            expect(result.current.messages.map((m) => m.content)).toEqual([
+                'Q1',
+                'A1 again',
+                'Q2',
+                'A2',
+            ])
+            const regenerated = result.current.messages[1]
+            expect(getMessageVersions(regenerated).map((version) => version.content)).toEqual([
+                'A1',
+                'A1 again',
+            ])
+            expect(regenerated.versionIndex).toBe(1)
+            expect(regenerated.status).toBe('complete')
+
+            act(() => result.current.selectVersion(ids[1], 0))
+            expect(result.current.messages[1].content).toBe('A1')
+        })
+
+        it('replaces it when retrying a failed answer', async () => {
+            vi.spyOn(console, 'error').mockImplementation(() => {})
+            const { result, ask, answer, fail } = await renderConversation()
+            await ask('Q1')
+            await fail()
+            await ask('Q2')
+            await answer('A2')
+            const failedId = result.current.messages[1].id
+            expect(result.current.messages[1].status).toBe('error')
+
+            await act(async () => {
+                void result.current.retryMessage(failedId)
+            })
+            await answer('A1')
+
+            expect(result.current.messages.map((m) => m.content)).toEqual([
+                'Q1',
+                'A1',
+                'Q2',
+                'A2',
+            ])
+            expect(result.current.messages[1]).toMatchObject({ id: failedId, status: 'complete' })
+            expect(result.current.messages[1].versions).toBeUndefined()
+        })
+    })
+
+    describe('stopStreaming', () => {
+        const renderStoppedAnswer = async (events: IStreamEvent[]) => {
+            const backend = createBackend()
+            const { result } = renderChat({ sendMessageToApi: backend.sendMessageToApi })
+            await act(async () => {
+                void result.current.sendMessage('Q', 'model')
+            })
+            for (const event of events) await backend.emit(event)
+            act(() => result.current.stopStreaming())
+            await backend.close()
+            return result.current.messages
+        }
+
+        const partialAnswers: Array<[string, IStreamEvent[]]> = [
+            ['text', [{ type: 'llm_token', content: 'Partial' }]],
+            ['only thinking', [{ type: 'reasoning', content: 'Let me think' }]],
+            ['only a tool call', [{ type: 'tool_start', tool_call_id: '1', tool_name: 'search' }]],
+        ]
+
+        it.each(partialAnswers)('keeps an answer with %s as stopped', async (_, events) => {
+            const messages = await renderStoppedAnswer(events)
+
+            expect(messages).toHaveLength(2)
+            expect(messages[1]).toMatchObject({ status: 'complete', stopReason: 'user_stopped' })
+        })
+
+        it('removes an answer without any output', async () => {
+            const messages = await renderStoppedAnswer([])
+
+            expect(messages.map((m) => m.role)).toEqual(['user'])
+        })
+    })
+})
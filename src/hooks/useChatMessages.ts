@@ -1,12 +1,43 @@
-import { useState, useCallback, useRef } from "react";
-import { v4 as uuidv4 } from "uuid";
-import type { IMessage, IPdfFile, IContentSegment } from "../types";
-import type { IStreamEvent } from "../context/ChatConfigContext";
-import { streamSSE } from "../utils/streaming";
-import type { IStreamSSEOptions } from "../utils/streaming";
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react'
+import { v4 as uuidv4 } from 'uuid'
+import type {
+    IMessage,
+    IPdfFile,
+    IContentSegment,
+    IToolOutput,
+    ICitation,
+    ITokenUsage,
+    MessageStatus,
+    StopReason,
+    FinishReason,
+    ToolCallStatus,
+} from '../types'
+import type { IStreamEvent } from '../context/ChatConfigContext'
+import { useChatConfig } from '../context/ChatConfigContext'
+import type { IStreamRetryInfo, IStreamSSEOptions } from '../utils/streaming'
+import { HttpError, ProviderError, toChatStreamError } from '../utils/errors'
+import type { ChatStreamError } from '../utils/errors'
+import type { EventAdapter } from '../adapters/types'
+import { sseTransport } from '../transports/sse'
+import type { IChatTransport } from '../transports/types'
+import type { IChatStorage } from '../storage/types'
+import {
+    getMessageVersions,
+    removeShownVersion,
+    showMessageVersion,
+    toMessageVersion,
+} from '../utils/messageVersions'
+import {
+    addBranch,
+    keepLatestMessages,
+    showBranch,
+    toActivePath,
+} from '../utils/messageBranches'
+import { addUsage, getConversationUsage } from '../utils/usage'
+import type { IModelOption } from './useModelSelection'
 
 // Re-export IStreamEvent for backward compatibility
-export type { IStreamEvent } from "../context/ChatConfigContext";
+export type { IStreamEvent } from '../context/ChatConfigContext'
 
 /**
  * Parameters passed to the sendMessageToApi callback function.
@@ -14,76 +45,300 @@ export type { IStreamEvent } from "../context/ChatConfigContext";
  * and process the streaming response.
  */
 export interface ISendMessageParams {
-  /** The user's input message text */
-  userInput: string;
-  /** Array of uploaded PDF file UUIDs to include with the message */
-  pdfUuids?: string[];
-  /** The AI model to use for this request */
-  modelName: string;
-  /** The current conversation history (messages before this request) */
-  messages: IMessage[];
-  /** Callback to handle each streaming event */
-  onEvent: (event: IStreamEvent) => void;
-  /** Callback called when streaming completes successfully */
-  onComplete: () => void;
-  /** Callback called when an error occurs */
-  onError: (error: Error) => void;
-  /** AbortSignal for cancelling the request */
-  abortSignal?: AbortSignal;
+    /** The user's input message text */
+    userInput: string
+    /** Array of uploaded PDF file UUIDs to include with the message */
+    pdfUuids?: string[]
+    /** The AI model to use for this request */
+    modelName: string
+    /**
+     * The current conversation history (messages before this request): the
+     * branch shown, without other branches or answer versions
+     */
+    messages: IMessage[]
+    /**
+     * The partial answer to extend, when continuing a stopped response with
+     * `continueGeneration`. Stream only the rest: it's appended to the
+     * partial answer.
+     */
+    continueFrom?: string
+    /** Callback to handle each streaming event */
+    onEvent: (event: IStreamEvent) => void
+    /** Callback called when streaming completes successfully */
+    onComplete: () => void
+    /**
+     * Callback called when the request was cancelled through `abortSignal`,
+     * e.g. by `stopStreaming`. Forward it to `streamSSE({ onAbort })`; the
+     * answer is then marked as stopped by the user.
+     */
+    onAbort: () => void
+    /**
+     * Callback called when an error occurs. Prefer the typed errors
+     * (`HttpError`, `NetworkError`, ...); other errors are wrapped.
+     */
+    onError: (error: Error) => void
+    /**
+     * Callback called before a reconnection attempt. Forward it to
+     * `streamSSE({ onRetry })` so partial content is kept without duplication.
+     */
+    onRetry: (info: IStreamRetryInfo) => void
+    /** AbortSignal for cancelling the request */
+    abortSignal?: AbortSignal
+}
+
+/**
+ * A page of older messages returned by `loadOlderMessages`.
+ */
+export interface IOlderMessagesPage {
+    /** Messages before the current oldest message, oldest first */
+    messages: IMessage[]
+    /** Whether there are still older messages to load */
+    hasMore: boolean
 }
 
 /**
  * Default maximum number of messages to keep in history.
  * Set to 0 for unlimited messages.
  */
-export const DEFAULT_MAX_MESSAGES = 0;
+export const DEFAULT_MAX_MESSAGES = 0
 
 /**
  * Configuration options for the useChatMessages hook.
  */
 export interface IUseChatMessagesOptions {
-  /**
-   * Optional function to send a message to the API.
-   * This function should handle the actual API call and invoke the provided callbacks.
-   *
-   * @param params - Parameters including user input, callbacks, and abort signal
-   */
-  sendMessageToApi?: (params: ISendMessageParams) => Promise<void>;
-  /**
-   * Optional configuration for automatic SSE streaming.
-   * If provided, the hook will handle the API call using streamSSE.
-   */
-  streamConfig?: Omit<
-    IStreamSSEOptions,
-    "onEvent" | "onComplete" | "onError" | "signal"
-  > & {
-    /** Function to transform the request body before sending */
-    transformBody?: (params: ISendMessageParams) => Record<string, unknown>;
-  };
-  /**
-   * Optional function to generate unique IDs for messages.
-   * Defaults to UUID v4 generation.
-   *
-   * @example
-   * ```tsx
-   * generateId: () => `msg_${Date.now()}_${Math.random().toString(36).slice(2)}`
-   * ```
-   */
-  generateId?: () => string;
-  /**
-   * Maximum number of messages to keep in history.
-   * When exceeded, oldest messages are removed.
-   * Set to 0 for unlimited messages (default).
-   *
-   * This helps prevent memory issues in long-running conversations.
-   *
-   * @example
-   * ```tsx
-   * // Keep only the last 100 messages
-   * maxMessages: 100
-   * ```
-   */
-  maxMessages?: number;
+    /**
+     * Optional function to send a message to the API.
+     * This function should handle the actual API call and invoke the provided callbacks.
+     *
+     * @param params - Parameters including user input, callbacks, and abort signal
+     */
+    sendMessageToApi?: (params: ISendMessageParams) => Promise<void>
+    /**
+     * Optional transport that carries requests to the backend, e.g.
+     * `websocketTransport` or `eventSourceTransport`. Its events run through
+     * the `eventAdapter` from the nearest `ChatConfigProvider` unless the
+     * transport has its own adapter.
+     *
+     * @example
+     * ```tsx
+     * transport: websocketTransport({ url: 'wss://chat.example.com/stream' })
+     * ```
+     */
+    transport?: IChatTransport
+    /**
+     * Optional configuration for automatic SSE streaming.
+     * If provided, the hook will handle the API call using `sseTransport`.
+     * When `adapter` is omitted, the `eventAdapter` from the nearest
+     * `ChatConfigProvider` is used.
+     */
+    streamConfig?: Omit<
+        IStreamSSEOptions,
+        'onEvent' | 'onComplete' | 'onError' | 'onRetry' | 'signal' | 'adapter'
+    > & {
+        /** Event adapter to transform raw events (defaults to the context `eventAdapter`) */
+        adapter?: EventAdapter
+        /** Function to transform the request body before sending */
+        transformBody?: (params: ISendMessageParams) => Record<string, unknown>
+    }
+    /**
+     * Optional function to generate unique IDs for messages.
+     * Defaults to UUID v4 generation.
+     *
+     * @example
+     * ```tsx
+     * generateId: () => `msg_${Date.now()}_${Math.random().toString(36).slice(2)}`
+     * ```
+     */
+    generateId?: () => string
+    /**
+     * Maximum number of messages to keep in history.
+     * When exceeded, the oldest exchanges are removed. Messages from the
+     * first edited message on are kept, with its branches.
+     * Set to 0 for unlimited messages (default).
+     *
+     * This helps prevent memory issues in long-running conversations.
+     *
+     * @example
+     * ```tsx
+     * // Keep only the last 100 messages
+     * maxMessages: 100
+     * ```
+     */
+    maxMessages?: number
+    /**
+     * How often streamed tokens are written to `messages`:
+     * - `"frame"` (default): at most once per animation frame
+     * - a number: at most once per that many milliseconds
+     * - `0`: on every token
+     *
+     * Batching keeps fast streams from re-rendering on every token. Pending
+     * tokens are flushed immediately on tool events and when the stream
+     * completes, fails or is stopped.
+     *
+     * @example
+     * ```tsx
+     * // Write at most 10 updates per second
+     * updateInterval: 100
+     * ```
+     */
+    updateInterval?: 'frame' | number
+    /**
+     * Optional function to load the messages before the oldest one in
+     * `messages` (or the latest page when there are none), e.g. conversation
+     * history from your backend. It runs when `loadOlder` is called; pass
+     * `loadOlder`, `hasMore` and `isLoadingOlder` to `ChatPanel` to load pages
+     * as the user scrolls up.
+     *
+     * Loaded messages are prepended and are not trimmed by `maxMessages`.
+     * A page that fails to load or adds no new messages sets `hasMore` to
+     * `false`.
+     *
+     * @example
+     * ```tsx
+     * loadOlderMessages: async (oldest) => {
+     *   const res = await fetch(`/api/history?before=${oldest?.id ?? ""}`)
+     *   const page = await res.json()
+     *   return { messages: page.items.map(toMessage), hasMore: page.hasMore }
+     * }
+     * ```
+     */
+    loadOlderMessages?: (oldestMessage: IMessage | undefined) => Promise<IOlderMessagesPage>
+    /**
+     * Optional storage that persists the conversation, e.g.
+     * `localStorageChatStorage()` or `indexedDBChatStorage()`. Messages are
+     * restored on mount (see `isHydrated`) and saved as they change; clearing
+     * the chat deletes the stored conversation.
+     *
+     * @example
+     * ```tsx
+     * const storage = localStorageChatStorage({ maxMessages: 200 })
+     * // ...
+     * useChatMessages({ transport, storage, conversationId: "support" })
+     * ```
+     */
+    storage?: IChatStorage
+    /**
+     * Messages to start with, e.g. a conversation from your backend. Ignored
+     * when `messages` is passed.
+     */
+    initialMessages?: IMessage[]
+    /**
+     * Controlled messages, e.g. from your own store. The hook renders these
+     * and reports every change it makes through `onMessagesChange`; the owner
+     * is expected to pass the new messages back.
+     *
+     * @example
+     * ```tsx
+     * const [messages, setMessages] = useState<IMessage[]>([])
+     * useChatMessages({ transport, messages, onMessagesChange: setMessages })
+     * ```
+     */
+    messages?: IMessage[]
+    /**
+     * Called with the new messages whenever the hook changes them (a token
+     * arrives, a message is sent, history loads, ...). Works in both
+     * controlled and uncontrolled mode.
+     */
+    onMessagesChange?: (messages: IMessage[]) => void
+    /**
+     * Models with `pricing`, to compute the cost in `usage`. Usually the
+     * `availableModels` passed to `ChatPanel`.
+     */
+    models?: IModelOption[]
+    /**
+     * Key of the conversation in `storage` (default: `"default"`).
+     *
+     * Changing it switches conversations: the messages are cleared and the
+     * next conversation is restored from `storage`. A response still streaming
+     * into the previous conversation is aborted.
+     */
+    conversationId?: string
+}
+
+/**
+ * Finds the tool call an event refers to: by `tool_call_id` when present,
+ * otherwise the most recent running call of the same tool.
+ */
+const findToolCallIndex = (tools: IToolOutput[], event: IStreamEvent): number => {
+    if (event.tool_call_id) {
+        return tools.findIndex((tool) => tool.toolCallId === event.tool_call_id)
+    }
+    const toolName = event.tool_name ?? 'unknown_tool'
+    for (let i = tools.length - 1; i >= 0; i--) {
+        if (tools[i].toolName === toolName && tools[i].status === 'running') {
+            return i
+        }
+    }
+    return -1
+}
+
+/**
+ * Drops undefined values so a partial update doesn't clear existing fields.
+ */
+const omitUndefined = <T extends object>(value: T): Partial<T> =>
+    Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as Partial<T>
+
+/**
+ * Parameters for streaming one assistant response.
+ */
+interface IStreamResponseParams {
+    userInput: string
+    modelName: string
+    /** Conversation history before the user turn being answered */
+    history: IMessage[]
+    pdfUuids?: string[]
+    /** Stream into this assistant message instead of appending a new one */
+    assistantMessageId?: string
+    /** Stopped answer to continue: the stream appends to its content */
+    partialAnswer?: IMessage
+}
+
+/**
+ * Options for regenerating a response.
+ */
+export interface IRegenerateOptions {
+    /** Model for the new answer (default: the model of the current answer) */
+    modelName?: string
+}
+
+/**
+ * Options for editing a user message.
+ */
+export interface IEditMessageOptions {
+    /** Model for the new answer (default: the model of the previous answer) */
+    modelName?: string
+}
+
+/**
+ * Stop reasons recorded for the finish reasons of `done` events. Tool calls
+ * and unknown reasons don't end the answer.
+ */
+const FINISH_STOP_REASONS: Partial<Record<FinishReason, StopReason>> = {
+    stop: 'completed',
+    length: 'length',
+    content_filter: 'content_filter',
+}
+
+/**
+ * The assistant message `messageId` with the user message it answers
+ */
+const findExchange = (messages: IMessage[], messageId: string) => {
+    const index = messages.findIndex((msg) => msg.id === messageId)
+    const answer = messages[index]
+    const userMessage = messages[index - 1]
+    if (index < 0 || answer.role !== 'assistant' || userMessage?.role !== 'user') {
+        return null
+    }
+    return { index, answer, userMessage }
+}
+
+/**
+ * The latest assistant message with the user message it answers, when
+ * `messageId` is that message.
+ */
+const findLatestExchange = (messages: IMessage[], messageId: string) => {
+    const exchange = findExchange(messages, messageId)
+    return exchange?.index === messages.length - 1 ? exchange : null
 }
 
 /**
@@ -101,360 +356,1159 @@ export interface IUseChatMessagesOptions {
  * ```
  */
 export const useChatMessages = (options: IUseChatMessagesOptions) => {
-  const {
-    sendMessageToApi,
-    streamConfig,
-    generateId = () => uuidv4(),
-    maxMessages = DEFAULT_MAX_MESSAGES,
-  } = options;
-
-  const [messages, setMessages] = useState<IMessage[]>([]);
-
-  /**
-   * Trims messages array to maxMessages limit if specified.
-   * Removes oldest messages first.
-   */
-  const trimMessages = useCallback(
-    (msgs: IMessage[]): IMessage[] => {
-      if (maxMessages <= 0 || msgs.length <= maxMessages) {
-        return msgs;
-      }
-      // Remove oldest messages to stay within limit
-      return msgs.slice(-maxMessages);
-    },
-    [maxMessages],
-  );
-  const [isStreaming, setIsStreaming] = useState(false);
-  const [uploadedPdfs, setUploadedPdfs] = useState<IPdfFile[]>([]);
-
-  // Refs for streaming state
-  const accumulatedContentRef = useRef("");
-  const contentSegmentsRef = useRef<IContentSegment[]>([]);
-  const currentTextSegmentRef = useRef("");
-  const abortControllerRef = useRef<AbortController | null>(null);
-
-  const finalizeAssistantMessage = useCallback(() => {
-    if (currentTextSegmentRef.current.trim()) {
-      const segments = [...contentSegmentsRef.current];
-      if (
-        segments.length > 0 &&
-        segments[segments.length - 1].type === "text"
-      ) {
-        segments[segments.length - 1] = {
-          type: "text",
-          content: currentTextSegmentRef.current,
-        };
-      } else {
-        segments.push({
-          type: "text",
-          content: currentTextSegmentRef.current,
-        });
-      }
-      contentSegmentsRef.current = segments;
-
-      setMessages((prev) => {
-        const updated = [...prev];
-        const lastMessage = updated[updated.length - 1];
-        if (lastMessage && lastMessage.role === "assistant") {
-          lastMessage.contentSegments = segments;
-        }
-        return updated;
-      });
+    const {
+        sendMessageToApi,
+        transport,
+        streamConfig,
+        generateId = () => uuidv4(),
+        maxMessages = DEFAULT_MAX_MESSAGES,
+        updateInterval = 'frame',
+        loadOlderMessages,
+        storage,
+        conversationId = 'default',
+        initialMessages,
+        messages: controlledMessages,
+        onMessagesChange,
+        models,
+    } = options
+
+    const { config } = useChatConfig()
+    const [internalMessages, setInternalMessages] = useState<IMessage[]>(
+        () => initialMessages ?? [],
+    )
+    const isControlled = controlledMessages !== undefined
+    const messages = isControlled ? controlledMessages : internalMessages
+
+    // The latest messages, including changes the owner hasn't passed back yet
+    const messagesRef = useRef(messages)
+    // Arrays the hook reported, to tell them apart from external replacements
+    const reportedMessagesRef = useRef(new WeakSet<IMessage[]>())
+    const isControlledRef = useRef(isControlled)
+    isControlledRef.current = isControlled
+    const onMessagesChangeRef = useRef(onMessagesChange)
+    onMessagesChangeRef.current = onMessagesChange
+
+    /**
+     * Applies a change to the latest messages and reports it. Updates are
+     * computed against `messagesRef` rather than queued, so they compose in
+     * controlled mode too.
+     */
+    const updateMessages = useCallback((update: (prev: IMessage[]) => IMessage[]) => {
+        const prev = messagesRef.current
+        const next = update(prev)
+        if (next === prev) return
+        messagesRef.current = next
+        reportedMessagesRef.current.add(next)
+        if (!isControlledRef.current) setInternalMessages(next)
+        onMessagesChangeRef.current?.(next)
+    }, [])
+
+    /**
+     * Trims messages array to maxMessages limit if specified.
+     * Removes oldest exchanges first, keeping branches whole.
+     */
+    const trimMessages = useCallback(
+        (msgs: IMessage[]): IMessage[] => keepLatestMessages(msgs, maxMessages),
+        [maxMessages],
+    )
+    const [isStreaming, setIsStreaming] = useState(false)
+    const [error, setError] = useState<ChatStreamError | null>(null)
+    const [uploadedPdfs, setUploadedPdfs] = useState<IPdfFile[]>([])
+    const [hasMore, setHasMore] = useState(Boolean(loadOlderMessages))
+    const [isLoadingOlder, setIsLoadingOlder] = useState(false)
+    // Bumped by clearChat so a page that arrives afterwards is dropped
+    const historyGenerationRef = useRef(0)
+    const isLoadingOlderRef = useRef(false)
+    // Without storage there's nothing to restore
+    const [isHydrated, setIsHydrated] = useState(!storage)
+
+    // Switching conversations starts over while the next one is restored, so the
+    // previous conversation's messages are never saved under the new id
+    const [shownConversationId, setShownConversationId] = useState(conversationId)
+    const hasPendingResetRef = useRef(false)
+    if (shownConversationId !== conversationId) {
+        setShownConversationId(conversationId)
+        // Reported from an effect: the owner can't be updated during render
+        messagesRef.current = []
+        reportedMessagesRef.current.add(messagesRef.current)
+        hasPendingResetRef.current = true
+        if (!isControlled) setInternalMessages([])
+        setIsStreaming(false)
+        setError(null)
+        setUploadedPdfs([])
+        setHasMore(Boolean(loadOlderMessages))
+        setIsLoadingOlder(false)
+        setIsHydrated(!storage)
     }
-  }, []);
-
-  // Handle streaming events
-  const handleStreamEvent = useCallback((event: IStreamEvent) => {
-    switch (event.type) {
-      case "llm_token":
-      case "tool_content":
-        if (event.content) {
-          const contentToAdd =
-            typeof event.content === "string"
-              ? event.content
-              : String(event.content);
-          accumulatedContentRef.current += contentToAdd;
-          currentTextSegmentRef.current += contentToAdd;
-
-          setMessages((prev) => {
-            const updated = [...prev];
-            const lastMessage = updated[updated.length - 1];
-            if (lastMessage && lastMessage.role === "assistant") {
-              lastMessage.content = accumulatedContentRef.current;
-            }
-            return updated;
-          });
-
-          const segments = [...contentSegmentsRef.current];
-          if (
-            segments.length > 0 &&
-            segments[segments.length - 1].type === "text"
-          ) {
-            segments[segments.length - 1] = {
-              type: "text",
-              content: currentTextSegmentRef.current,
-            };
-          } else {
-            segments.push({
-              type: "text",
-              content: currentTextSegmentRef.current,
-            });
-          }
-          contentSegmentsRef.current = segments;
-
-          setMessages((prev) => {
-            const updated = [...prev];
-            const lastMessage = updated[updated.length - 1];
-            if (lastMessage && lastMessage.role === "assistant") {
-              lastMessage.contentSegments = segments;
+
+    // Refs for streaming state
+    const accumulatedContentRef = useRef('')
+    const contentSegmentsRef = useRef<IContentSegment[]>([])
+    const currentTextSegmentRef = useRef('')
+    const toolOutputsRef = useRef<IToolOutput[]>([])
+    const citationsRef = useRef<ICitation[]>([])
+    // Tokens the current stream reported, before adding a continued answer's
+    const usageRef = useRef<ITokenUsage | null>(null)
+    const abortControllerRef = useRef<AbortController | null>(null)
+    // Id of the assistant message the current stream writes into
+    const streamingMessageIdRef = useRef<string | null>(null)
+    // Bumped for every stream, so callbacks of a detached stream are ignored
+    const streamGenerationRef = useRef(0)
+    // Stopped answer the current stream continues, if any
+    const partialAnswerRef = useRef<IMessage | null>(null)
+
+    // Cancels the scheduled flush of batched token updates, if any
+    const cancelFlushRef = useRef<(() => void) | null>(null)
+
+    // Apply a change to the assistant message being streamed, if it's still there
+    const updateStreamingMessage = useCallback(
+        (update: (message: IMessage) => IMessage) => {
+            const streamingMessageId = streamingMessageIdRef.current
+            if (!streamingMessageId) return
+            updateMessages((prev) => {
+                const index = prev.findIndex((msg) => msg.id === streamingMessageId)
+                if (index < 0) return prev
+                const message = update(prev[index])
+                if (message === prev[index]) return prev
+                const updated = [...prev]
+                updated[index] = message
+                return updated
+            })
+        },
+        [updateMessages],
+    )
+
+    // Write content, segments and tool calls from refs onto the streaming assistant message
+    const flushStreamingMessage = useCallback(() => {
+        cancelFlushRef.current?.()
+        cancelFlushRef.current = null
+
+        const content = accumulatedContentRef.current
+        const contentSegments = contentSegmentsRef.current
+        const toolOutputs = toolOutputsRef.current
+        const citations = citationsRef.current
+        const usage = usageRef.current
+        updateStreamingMessage((message) => ({
+            ...message,
+            content,
+            contentSegments,
+            toolOutputs: toolOutputs.length > 0 ? toolOutputs : undefined,
+            citations: citations.length > 0 ? citations : undefined,
+            usage: usage ? addUsage(partialAnswerRef.current?.usage, usage) : message.usage,
+        }))
+    }, [updateStreamingMessage])
+
+    // Flush batched token updates on the next frame or interval tick
+    const scheduleFlush = useCallback(() => {
+        if (cancelFlushRef.current) return
+        if (updateInterval === 0) {
+            flushStreamingMessage()
+            return
+        }
+
+        const onTick = () => {
+            cancelFlushRef.current = null
+            flushStreamingMessage()
+        }
+        if (updateInterval === 'frame' && typeof requestAnimationFrame === 'function') {
+            const frame = requestAnimationFrame(onTick)
+            cancelFlushRef.current = () => cancelAnimationFrame(frame)
+        } else {
+            const timer = setTimeout(onTick, updateInterval === 'frame' ? 16 : updateInterval)
+            cancelFlushRef.current = () => clearTimeout(timer)
+        }
+    }, [updateInterval, flushStreamingMessage])
+
+    // Accumulate the streamed answer from the content of `message`, or from nothing
+    const resetAccumulation = useCallback((message?: IMessage | null) => {
+        const segments: IContentSegment[] =
+            message?.contentSegments ??
+            (message?.content ? [{ type: 'text', content: message.content }] : [])
+        const lastSegment = segments[segments.length - 1]
+        accumulatedContentRef.current = message?.content ?? ''
+        contentSegmentsRef.current = segments
+        currentTextSegmentRef.current = lastSegment?.type === 'text' ? lastSegment.content : ''
+        toolOutputsRef.current = message?.toolOutputs ?? []
+        citationsRef.current = message?.citations ?? []
+    }, [])
+
+    // Abort the running stream and ignore anything it still reports
+    const detachStream = useCallback(() => {
+        abortControllerRef.current?.abort()
+        abortControllerRef.current = null
+        streamingMessageIdRef.current = null
+        partialAnswerRef.current = null
+        streamGenerationRef.current++
+        cancelFlushRef.current?.()
+        cancelFlushRef.current = null
+        resetAccumulation()
+        usageRef.current = null
+    }, [resetAccumulation])
+
+    // Detach the running stream and pending history page on unmount and when
+    // switching conversations
+    useEffect(
+        () => () => {
+            detachStream()
+            historyGenerationRef.current++
+        },
+        [conversationId, detachStream],
+    )
+
+    // Report the cleared messages of a conversation switch
+    useEffect(() => {
+        if (!hasPendingResetRef.current) return
+        hasPendingResetRef.current = false
+        onMessagesChangeRef.current?.(messagesRef.current)
+    }, [shownConversationId])
+
+    /**
+     * After the messages were replaced externally, continue the stream from
+     * its message as it is now, so the next token doesn't bring back replaced
+     * content. If the message was removed, the stream is stopped.
+     */
+    const adoptStreamingMessage = useCallback(
+        (next: IMessage[]) => {
+            const streamingMessageId = streamingMessageIdRef.current
+            if (!streamingMessageId) return
+            const message = next.find((msg) => msg.id === streamingMessageId)
+            if (!message) {
+                detachStream()
+                setIsStreaming(false)
+                return
             }
-            return updated;
-          });
+
+            cancelFlushRef.current?.()
+            cancelFlushRef.current = null
+            resetAccumulation(message)
+        },
+        [detachStream, resetAccumulation],
+    )
+
+    // Adopt messages the owner replaced in controlled mode
+    useEffect(() => {
+        if (!controlledMessages || reportedMessagesRef.current.has(controlledMessages)) {
+            return
         }
-        break;
+        messagesRef.current = controlledMessages
+        adoptStreamingMessage(controlledMessages)
+    }, [controlledMessages, adoptStreamingMessage])
 
-      case "tool_start":
-      case "tool_end":
-        // Tool events are ignored - no tool rendering
-        break;
+    // The latest storage, so a storage created during render doesn't reload the conversation
+    const storageRef = useRef(storage)
+    storageRef.current = storage
+    const hasStorage = Boolean(storage)
 
-      case "error":
-        console.error("Stream error:", event.message);
-        break;
-    }
-  }, []);
-
-  // Handle sending messages
-  const sendMessage = useCallback(
-    async (userInput: string, modelName: string) => {
-      if (!userInput.trim()) return;
-
-      // Capture conversation history before this exchange
-      const conversationHistory = [...messages];
-
-      // Add user message
-      const userMessage: IMessage = {
-        id: generateId(),
-        role: "user",
-        content: userInput,
-        attachedFiles: uploadedPdfs.length > 0 ? uploadedPdfs : undefined,
-        timestamp: new Date(),
-      };
-
-      setMessages((prev) => trimMessages([...prev, userMessage]));
-
-      // Prepare assistant message
-      const assistantMessage: IMessage = {
-        id: generateId(),
-        role: "assistant",
-        content: "",
-        timestamp: new Date(),
-      };
-      setMessages((prev) => trimMessages([...prev, assistantMessage]));
-
-      // Reset state
-      accumulatedContentRef.current = "";
-      contentSegmentsRef.current = [];
-      currentTextSegmentRef.current = "";
-      setIsStreaming(true);
-
-      // Create new AbortController for this request
-      abortControllerRef.current = new AbortController();
-
-      // Get PDF UUIDs for request
-      const pdfUuids = uploadedPdfs.map((pdf) => pdf.uuid);
-      setUploadedPdfs([]);
-
-      try {
-        if (sendMessageToApi) {
-          await sendMessageToApi({
+    // Restore the stored conversation
+    useEffect(() => {
+        if (!storageRef.current) return
+        let isCancelled = false
+        setIsHydrated(false)
+
+        storageRef.current
+            .load(conversationId)
+            .then((stored) => {
+                if (isCancelled || !stored) return
+                // Keep anything sent while the conversation was loading
+                updateMessages((prev) => {
+                    const storedIds = new Set(stored.map((message) => message.id))
+                    return [...stored, ...prev.filter((message) => !storedIds.has(message.id))]
+                })
+            })
+            .catch((loadError: unknown) => {
+                console.error('Failed to restore the conversation:', loadError)
+            })
+            .finally(() => {
+                if (!isCancelled) setIsHydrated(true)
+            })
+
+        return () => {
+            isCancelled = true
+        }
+    }, [hasStorage, conversationId, updateMessages])
+
+    // Save the conversation as it changes; the storage batches the writes
+    useEffect(() => {
+        const currentStorage = storageRef.current
+        if (!currentStorage || !isHydrated) return
+        const write =
+            messages.length > 0
+                ? currentStorage.save(conversationId, messages)
+                : currentStorage.delete(conversationId)
+        write.catch((saveError: unknown) => {
+            console.error('Failed to save the conversation:', saveError)
+        })
+    }, [conversationId, messages, isHydrated])
+
+    /**
+     * Set the status (and error) of the streaming assistant message. Once it
+     * ends, its stop reason is `'error'` for errors, otherwise `stopReason`
+     * or `'completed'`.
+     */
+    const setAssistantStatus = useCallback(
+        (
+            status: MessageStatus,
+            {
+                error: streamError,
+                stopReason,
+            }: { error?: ChatStreamError; stopReason?: StopReason } = {},
+        ) => {
+            updateStreamingMessage((message) => {
+                // An error reported mid-stream is final, even if the stream then completes
+                if (message.status === 'error') return message
+                return {
+                    ...message,
+                    status,
+                    stopReason:
+                        status === 'error'
+                            ? 'error'
+                            : (stopReason ?? message.stopReason ?? 'completed'),
+                    error: streamError && {
+                        name: streamError.name,
+                        message: streamError.message,
+                        status: streamError instanceof HttpError ? streamError.status : undefined,
+                    },
+                }
+            })
+        },
+        [updateStreamingMessage],
+    )
+
+    /**
+     * Ends the thinking being streamed, if any. Returns whether it was ended;
+     * the change is written with the next flush.
+     */
+    const endReasoning = useCallback(() => {
+        const segments = contentSegmentsRef.current
+        const lastSegment = segments[segments.length - 1]
+        if (lastSegment?.type !== 'reasoning' || lastSegment.completedAt) {
+            return false
+        }
+        contentSegmentsRef.current = [
+            ...segments.slice(0, -1),
+            { ...lastSegment, completedAt: new Date() },
+        ]
+        return true
+    }, [])
+
+    /**
+     * Settles what is still running when the stream ends. Thinking ends, and
+     * tool calls are marked "done" when the stream completed normally (e.g.
+     * provider streams that never report results), "failed" on error or abort.
+     */
+    const settleStream = useCallback(
+        (status: Exclude<ToolCallStatus, 'running'>) => {
+            const hasEndedReasoning = endReasoning()
+            const hasRunningTools = toolOutputsRef.current.some((tool) => tool.status === 'running')
+            if (hasRunningTools) {
+                const completedAt = new Date()
+                toolOutputsRef.current = toolOutputsRef.current.map((tool) =>
+                    tool.status === 'running' ? { ...tool, status, completedAt } : tool,
+                )
+            }
+            if (hasEndedReasoning || hasRunningTools) flushStreamingMessage()
+        },
+        [endReasoning, flushStreamingMessage],
+    )
+
+    // Apply a tool event to its call, recording a new call if none matches
+    const applyToolEvent = useCallback(
+        (event: IStreamEvent, patch: Partial<IToolOutput>) => {
+            const outputs = [...toolOutputsRef.current]
+            const index = findToolCallIndex(outputs, event)
+            const changes = omitUndefined({ ...patch, title: event.title })
+
+            if (index >= 0) {
+                outputs[index] = { ...outputs[index], ...changes }
+            } else {
+                const toolName = event.tool_name ?? 'unknown_tool'
+                outputs.push({
+                    toolCallId: event.tool_call_id,
+                    toolName,
+                    friendlyName: event.title ?? toolName,
+                    output: '',
+                    visible: true,
+                    status: 'running',
+                    startedAt: new Date(),
+                    ...changes,
+                })
+                // Close the current text block so text after the tool starts a new one
+                endReasoning()
+                contentSegmentsRef.current = [
+                    ...contentSegmentsRef.current,
+                    { type: 'tool', toolIndex: outputs.length - 1 },
+                ]
+                currentTextSegmentRef.current = ''
+            }
+
+            toolOutputsRef.current = outputs
+            flushStreamingMessage()
+        },
+        [endReasoning, flushStreamingMessage],
+    )
+
+    // Handle streaming events
+    const handleStreamEvent = useCallback(
+        (event: IStreamEvent) => {
+            switch (event.type) {
+                case 'llm_token':
+                case 'tool_content':
+                    if (event.content) {
+                        const contentToAdd =
+                            typeof event.content === 'string'
+                                ? event.content
+                                : String(event.content)
+                        endReasoning()
+                        accumulatedContentRef.current += contentToAdd
+                        currentTextSegmentRef.current += contentToAdd
+
+                        const segments = [...contentSegmentsRef.current]
+                        if (segments.length > 0 && segments[segments.length - 1].type === 'text') {
+                            segments[segments.length - 1] = {
+                                type: 'text',
+                                content: currentTextSegmentRef.current,
+                            }
+                        } else {
+                            segments.push({
+                                type: 'text',
+                                content: currentTextSegmentRef.current,
+                            })
+                        }
+                        contentSegmentsRef.current = segments
+                        scheduleFlush()
+                    }
+                    break
+
+                case 'reasoning':
+                    if (event.content) {
+                        const segments = [...contentSegmentsRef.current]
+                        const lastSegment = segments[segments.length - 1]
+                        if (lastSegment?.type === 'reasoning' && !lastSegment.completedAt) {
+                            segments[segments.length - 1] = {
+                                ...lastSegment,
+                                content: lastSegment.content + event.content,
+                            }
+                        } else {
+                            segments.push({
+                                type: 'reasoning',
+                                content: event.content,
+                                startedAt: new Date(),
+                            })
+                            // Text after the thinking starts a new text block
+                            currentTextSegmentRef.current = ''
+                        }
+                        contentSegmentsRef.current = segments
+                        scheduleFlush()
+                    }
+                    break
+
+                case 'tool_start':
+                    applyToolEvent(event, { input: event.input })
+                    break
+
+                case 'tool_call':
+                    applyToolEvent(event, { input: event.arguments ?? event.input })
+                    break
+
+                case 'tool_result':
+                case 'tool_end':
+                    applyToolEvent(event, {
+                        output: event.result ?? event.output ?? '',
+                        status: event.is_error ? 'failed' : 'done',
+                        completedAt: new Date(),
+                    })
+                    break
+
+                case 'citation': {
+                    const citations = [...citationsRef.current]
+                    const id = String(event.citation_id ?? citations.length + 1)
+                    // Link the citation to the uploaded PDF it cites, if attached
+                    const attachedFiles = messagesRef.current.flatMap(
+                        (message) => message.attachedFiles ?? [],
+                    )
+                    const file = event.document_uuid
+                        ? attachedFiles.find((pdf) => pdf.uuid === event.document_uuid)
+                        : undefined
+                    const citation: ICitation = {
+                        id,
+                        ...omitUndefined({
+                            title: event.title,
+                            url: event.url,
+                            snippet: event.snippet,
+                            documentUuid: event.document_uuid,
+                            page: event.page,
+                            file,
+                        }),
+                    }
+                    const index = citations.findIndex((cited) => cited.id === id)
+                    if (index >= 0) citations[index] = citation
+                    else citations.push(citation)
+                    citationsRef.current = citations
+                    scheduleFlush()
+                    break
+                }
+
+                case 'usage':
+                    usageRef.current = {
+                        inputTokens: event.input_tokens ?? usageRef.current?.inputTokens ?? 0,
+                        outputTokens: event.output_tokens ?? usageRef.current?.outputTokens ?? 0,
+                    }
+                    scheduleFlush()
+                    break
+
+                case 'done': {
+                    // Recorded now and kept when the stream completes
+                    const stopReason = event.finish_reason
+                        ? FINISH_STOP_REASONS[event.finish_reason]
+                        : undefined
+                    if (!stopReason) break
+                    updateStreamingMessage((message) => ({
+                        ...message,
+                        stopReason,
+                        blockedCategories:
+                            stopReason === 'content_filter' ? event.blocked_categories : undefined,
+                    }))
+                    break
+                }
+
+                case 'error': {
+                    const providerError = new ProviderError(event.message)
+                    setError(providerError)
+                    settleStream('failed')
+                    setAssistantStatus('error', { error: providerError })
+                    break
+                }
+            }
+        },
+        [
+            applyToolEvent,
+            endReasoning,
+            scheduleFlush,
+            updateStreamingMessage,
+            settleStream,
+            setAssistantStatus,
+        ],
+    )
+
+    /**
+     * Handle a reconnection. A resumed stream continues after the last event, so
+     * the partial answer is kept as is. A restarted stream replays the answer
+     * from the beginning, so accumulation starts over and the first new token
+     * replaces the partial content instead of duplicating it.
+     */
+    const handleStreamRetry = useCallback(
+        (info: IStreamRetryInfo) => {
+            if (!info.resumed) resetAccumulation(partialAnswerRef.current)
+        },
+        [resetAccumulation],
+    )
+
+    const handleStreamComplete = useCallback(() => {
+        flushStreamingMessage()
+        settleStream('done')
+        setAssistantStatus('complete')
+        setIsStreaming(false)
+        abortControllerRef.current = null
+        streamingMessageIdRef.current = null
+        partialAnswerRef.current = null
+    }, [flushStreamingMessage, settleStream, setAssistantStatus])
+
+    /**
+     * Record a failed stream on the hook's `error` state and the assistant
+     * message.
+     */
+    const handleStreamError = useCallback(
+        (cause: unknown) => {
+            flushStreamingMessage()
+            settleStream('failed')
+            setIsStreaming(false)
+            abortControllerRef.current = null
+            const streamError = toChatStreamError(cause)
+            console.error('Chat error:', streamError)
+            setError(streamError)
+            setAssistantStatus('error', { error: streamError })
+            streamingMessageIdRef.current = null
+            partialAnswerRef.current = null
+        },
+        [flushStreamingMessage, settleStream, setAssistantStatus],
+    )
+
+    /**
+     * End an aborted stream: the partial answer is kept, marked as stopped by
+     * the user, and anything the transport still reports is ignored. Thinking
+     * and tool calls count as a partial answer; an answer with none of them and
+     * no text is removed, falling back to the previous answer of a
+     * regenerated message.
+     */
+    const handleStreamAbort = useCallback(() => {
+        flushStreamingMessage()
+        settleStream('failed')
+        setAssistantStatus('complete', { stopReason: 'user_stopped' })
+
+        const streamingMessageId = streamingMessageIdRef.current
+        detachStream()
+        setIsStreaming(false)
+
+        updateMessages((prev) =>
+            prev.flatMap((msg) => {
+                const hasContent =
+                    msg.content.trim() ||
+                    msg.toolOutputs?.length ||
+                    msg.contentSegments?.some((segment) => segment.type !== 'text')
+                if (msg.id !== streamingMessageId || hasContent) return [msg]
+                const previous = removeShownVersion(msg)
+                return previous ? [previous] : []
+            }),
+        )
+    }, [flushStreamingMessage, settleStream, setAssistantStatus, detachStream, updateMessages])
+
+    // Append an assistant message and stream the response into it
+    const streamAssistantResponse = useCallback(
+        async ({
             userInput,
-            pdfUuids: pdfUuids.length > 0 ? pdfUuids : undefined,
             modelName,
-            messages: conversationHistory,
-            onEvent: handleStreamEvent,
-            onComplete: () => {
-              finalizeAssistantMessage();
-              setIsStreaming(false);
-              abortControllerRef.current = null;
-            },
-            onError: (error) => {
-              console.error("Chat error:", error);
-              setIsStreaming(false);
-              abortControllerRef.current = null;
-            },
-            abortSignal: abortControllerRef.current.signal,
-          });
-        } else if (streamConfig) {
-          const { transformBody, ...restConfig } = streamConfig;
-          await streamSSE({
-            ...restConfig,
-            body: transformBody
-              ? transformBody({
-                  userInput,
-                  pdfUuids: pdfUuids.length > 0 ? pdfUuids : undefined,
-                  modelName,
-                  messages: conversationHistory,
-                  onEvent: handleStreamEvent,
-                  onComplete: () => {}, // Handled by streamSSE wrappers
-                  onError: () => {},
-                  abortSignal: abortControllerRef.current.signal,
-                })
-              : (streamConfig.body as Record<string, unknown>),
-            onEvent: handleStreamEvent,
-            onComplete: () => {
-              finalizeAssistantMessage();
-              setIsStreaming(false);
-              abortControllerRef.current = null;
-            },
-            onError: (error) => {
-              console.error("Chat error:", error);
-              setIsStreaming(false);
-              abortControllerRef.current = null;
+            history,
+            pdfUuids,
+            partialAnswer,
+            assistantMessageId = partialAnswer?.id,
+        }: IStreamResponseParams) => {
+            // A stopped stream whose transport hasn't reported the abort yet ends now
+            if (abortControllerRef.current?.signal.aborted) handleStreamAbort()
+
+            if (assistantMessageId) {
+                streamingMessageIdRef.current = assistantMessageId
+            } else {
+                const assistantMessage: IMessage = {
+                    id: generateId(),
+                    role: 'assistant',
+                    content: '',
+                    timestamp: new Date(),
+                    model: modelName,
+                    status: 'streaming',
+                }
+                updateMessages((prev) => trimMessages([...prev, assistantMessage]))
+                streamingMessageIdRef.current = assistantMessage.id
+            }
+
+            // Reset state
+            partialAnswerRef.current = partialAnswer ?? null
+            resetAccumulation(partialAnswer)
+            usageRef.current = null
+            setError(null)
+            setIsStreaming(true)
+
+            // Create new AbortController for this request
+            const abortController = new AbortController()
+            abortControllerRef.current = abortController
+            const { signal } = abortController
+
+            // Ignore callbacks that arrive after the conversation was switched
+            const generation = ++streamGenerationRef.current
+            const whileCurrent = <A extends unknown[]>(handler: (...args: A) => void) => {
+                return (...args: A) => {
+                    if (generation === streamGenerationRef.current) handler(...args)
+                }
+            }
+            // Once aborted, the stream ends as stopped however the transport reports it:
+            // transports without `onAbort` complete or fail with an AbortError instead
+            const onEvent = whileCurrent((event: IStreamEvent) => {
+                if (!signal.aborted) handleStreamEvent(event)
+            })
+            const onRetry = whileCurrent((info: IStreamRetryInfo) => {
+                if (!signal.aborted) handleStreamRetry(info)
+            })
+            const onAbort = whileCurrent(handleStreamAbort)
+            const onComplete = whileCurrent(() => {
+                if (signal.aborted) handleStreamAbort()
+                else handleStreamComplete()
+            })
+            const onError = whileCurrent((cause: unknown) => {
+                if (signal.aborted) handleStreamAbort()
+                else handleStreamError(cause)
+            })
+
+            const activeTransport =
+                transport ?? (streamConfig ? sseTransport(streamConfig) : undefined)
+
+            try {
+                if (sendMessageToApi) {
+                    await sendMessageToApi({
+                        userInput,
+                        pdfUuids,
+                        modelName,
+                        messages: toActivePath(history),
+                        continueFrom: partialAnswer?.content,
+                        onEvent,
+                        onRetry,
+                        onComplete,
+                        onAbort,
+                        onError,
+                        abortSignal: signal,
+                    })
+                } else if (activeTransport) {
+                    await activeTransport.send({
+                        userInput,
+                        pdfUuids,
+                        modelName,
+                        messages: toActivePath(history),
+                        continueFrom: partialAnswer?.content,
+                        adapter: config.eventAdapter,
+                        onEvent,
+                        onRetry,
+                        onComplete,
+                        onAbort,
+                        onError,
+                        abortSignal: signal,
+                    })
+                } else {
+                    console.error(
+                        'None of sendMessageToApi, transport or streamConfig provided to useChatMessages',
+                    )
+                    setIsStreaming(false)
+                }
+            } catch (error) {
+                onError(error)
+            }
+
+            // The request ended without reporting the abort
+            if (signal.aborted) onAbort()
+        },
+        [
+            sendMessageToApi,
+            transport,
+            streamConfig,
+            config.eventAdapter,
+            handleStreamEvent,
+            handleStreamRetry,
+            handleStreamComplete,
+            handleStreamError,
+            handleStreamAbort,
+            generateId,
+            trimMessages,
+            updateMessages,
+            resetAccumulation,
+        ],
+    )
+
+    // Handle sending messages
+    const sendMessage = useCallback(
+        async (userInput: string, modelName: string) => {
+            if (!userInput.trim()) return
+
+            // Capture conversation history before this exchange
+            const conversationHistory = [...messages]
+
+            // Add user message
+            const userMessage: IMessage = {
+                id: generateId(),
+                role: 'user',
+                content: userInput,
+                attachedFiles: uploadedPdfs.length > 0 ? uploadedPdfs : undefined,
+                timestamp: new Date(),
+            }
+
+            updateMessages((prev) => trimMessages([...prev, userMessage]))
+
+            // Get PDF UUIDs for request
+            const pdfUuids = uploadedPdfs.map((pdf) => pdf.uuid)
+            setUploadedPdfs([])
+
+            await streamAssistantResponse({
+                userInput,
+                modelName,
+                history: conversationHistory,
+                pdfUuids: pdfUuids.length > 0 ? pdfUuids : undefined,
+            })
+        },
+        [messages, uploadedPdfs, streamAssistantResponse, generateId, trimMessages, updateMessages],
+    )
+
+    /**
+     * Streams a new answer for the user message before an assistant message,
+     * with the same attachments, into the same message. With `asNewVersion`
+     * the current answer is kept as a version; otherwise it is replaced.
+     * The messages after an earlier answer are left as they are.
+     */
+    const rerunAnswer = useCallback(
+        async (messageId: string, modelName: string | undefined, asNewVersion: boolean) => {
+            const exchange = findExchange(messages, messageId)
+            if (isStreaming || !exchange) return
+            const { index, answer, userMessage } = exchange
+
+            const model = modelName ?? answer.model ?? ''
+            const pdfUuids = userMessage.attachedFiles?.map((pdf) => pdf.uuid)
+
+            const rerun: IMessage = {
+                ...answer,
+                content: '',
+                contentSegments: undefined,
+                toolOutputs: undefined,
+                timestamp: new Date(),
+                model,
+                status: 'streaming',
+                error: undefined,
+                stopReason: undefined,
+                blockedCategories: undefined,
+                usage: undefined,
+                citations: undefined,
+            }
+            if (asNewVersion) {
+                const versions = getMessageVersions(answer)
+                rerun.versions = [...versions, toMessageVersion(rerun)]
+                rerun.versionIndex = versions.length
+            }
+            updateMessages((prev) => prev.map((msg) => (msg.id === messageId ? rerun : msg)))
+
+            await streamAssistantResponse({
+                userInput: userMessage.content,
+                modelName: model,
+                history: messages.slice(0, index - 1),
+                pdfUuids: pdfUuids?.length ? pdfUuids : undefined,
+                assistantMessageId: messageId,
+            })
+        },
+        [messages, isStreaming, streamAssistantResponse, updateMessages],
+    )
+
+    /**
+     * Retry a failed assistant message: the user message it answered is sent
+     * again with the same model and attachments, and the new answer replaces
+     * the failed one, also for an earlier answer.
+     *
+     * @example
+     * ```tsx
+     * <ChatPanel onRetryMessage={retryMessage} ... />
+     * ```
+     */
+    const retryMessage = useCallback(
+        (messageId: string) => rerunAnswer(messageId, undefined, false),
+        [rerunAnswer],
+    )
+
+    /**
+     * Ask for another answer to the user message before an assistant
+     * message. The assistant message collects its answers in `versions`, and
+     * `selectVersion` switches between them. Regenerating an earlier answer
+     * leaves the messages after it as they are; they were answered with the
+     * previous version in the history.
+     *
+     * Does nothing while streaming, or if `messageId` is not an assistant
+     * message answering a user message.
+     *
+     * @example
+     * ```tsx
+     * // Compare answers across models
+     * <ChatPanel
+     *   onRegenerateMessage={(id) => regenerate(id, { modelName: selectedModel })}
+     *   onSelectMessageVersion={selectVersion}
+     *   ...
+     * />
+     * ```
+     */
+    const regenerate = useCallback(
+        (messageId: string, { modelName }: IRegenerateOptions = {}) =>
+            rerunAnswer(messageId, modelName, true),
+        [rerunAnswer],
+    )
+
+    /**
+     * Continue the latest answer after it was stopped, by the user or at the
+     * backend's token limit. The backend gets the partial answer as
+     * `continueFrom`, and the rest streams into the same message.
+     *
+     * @example
+     * ```tsx
+     * <ChatPanel onContinueMessage={continueGeneration} ... />
+     * ```
+     */
+    const continueGeneration = useCallback(
+        async (messageId: string) => {
+            const exchange = findLatestExchange(messages, messageId)
+            if (isStreaming || !exchange) return
+            const { index, answer, userMessage } = exchange
+            if (answer.stopReason !== 'user_stopped' && answer.stopReason !== 'length') {
+                return
+            }
+
+            const partialAnswer: IMessage = {
+                ...answer,
+                status: 'streaming',
+                stopReason: undefined,
+            }
+            updateMessages((prev) =>
+                prev.map((msg) => (msg.id === messageId ? partialAnswer : msg)),
+            )
+
+            const pdfUuids = userMessage.attachedFiles?.map((pdf) => pdf.uuid)
+            await streamAssistantResponse({
+                userInput: userMessage.content,
+                modelName: answer.model ?? '',
+                history: messages.slice(0, index - 1),
+                pdfUuids: pdfUuids?.length ? pdfUuids : undefined,
+                partialAnswer,
+            })
+        },
+        [messages, isStreaming, streamAssistantResponse, updateMessages],
+    )
+
+    /**
+     * Show another answer of a regenerated assistant message.
+     */
+    const selectVersion = useCallback(
+        (messageId: string, versionIndex: number) => {
+            // The answer being streamed stays in view until it finishes
+            if (messageId === streamingMessageIdRef.current) return
+            updateMessages((prev) =>
+                prev.map((msg) =>
+                    msg.id === messageId ? showMessageVersion(msg, versionIndex) : msg,
+                ),
+            )
+        },
+        [updateMessages],
+    )
+
+    /**
+     * Edit a user message and send it again. The conversation branches at
+     * the message: the original message and everything after it are kept as
+     * a branch, and `selectBranch` switches between the branches. Only the
+     * branch shown is sent to the backend.
+     *
+     * @example
+     * ```tsx
+     * <ChatPanel
+     *   onEditMessage={editMessage}
+     *   onSelectMessageBranch={selectBranch}
+     *   ...
+     * />
+     * ```
+     */
+    const editMessage = useCallback(
+        async (messageId: string, content: string, { modelName }: IEditMessageOptions = {}) => {
+            if (isStreaming || !content.trim()) return
+
+            const index = messages.findIndex((msg) => msg.id === messageId)
+            const original = messages[index]
+            if (index < 0 || original.role !== 'user') return
+
+            const editedMessage: IMessage = {
+                id: generateId(),
+                role: 'user',
+                content,
+                attachedFiles: original.attachedFiles,
+                timestamp: new Date(),
+            }
+            updateMessages((prev) => {
+                const current = prev.findIndex((msg) => msg.id === messageId)
+                return current < 0 ? prev : addBranch(prev, current, editedMessage)
+            })
+
+            const previousAnswer =
+                messages[index + 1]?.role === 'assistant' ? messages[index + 1] : null
+            const pdfUuids = original.attachedFiles?.map((pdf) => pdf.uuid)
+            await streamAssistantResponse({
+                userInput: content,
+                modelName: modelName ?? previousAnswer?.model ?? '',
+                history: messages.slice(0, index),
+                pdfUuids: pdfUuids?.length ? pdfUuids : undefined,
+            })
+        },
+        [messages, isStreaming, generateId, streamAssistantResponse, updateMessages],
+    )
+
+    /**
+     * Show another branch of an edited user message.
+     */
+    const selectBranch = useCallback(
+        (messageId: string, branchIndex: number) => {
+            // The branch being answered stays in view until the answer finishes
+            if (streamingMessageIdRef.current) return
+            updateMessages((prev) => {
+                const index = prev.findIndex((msg) => msg.id === messageId)
+                return index < 0 ? prev : showBranch(prev, index, branchIndex)
+            })
+        },
+        [updateMessages],
+    )
+
+    /**
+     * Stop the answer being streamed. The request is aborted, and the answer
+     * is marked as stopped when the transport reports the abort (`onAbort`).
+     * Tokens that arrive meanwhile are ignored.
+     */
+    const stopStreaming = useCallback(() => {
+        const abortController = abortControllerRef.current
+        if (!abortController || abortController.signal.aborted) return
+        flushStreamingMessage()
+        setIsStreaming(false)
+        abortController.abort()
+    }, [flushStreamingMessage])
+
+    // Handle adding PDF
+    const addPdf = useCallback((pdf: IPdfFile) => {
+        setUploadedPdfs((prev) => [...prev, pdf])
+    }, [])
+
+    // Handle removing PDF
+    const removePdf = useCallback((uuid: string) => {
+        setUploadedPdfs((prev) => prev.filter((pdf) => pdf.uuid !== uuid))
+    }, [])
+
+    // Handle clearing chat
+    const clearChat = useCallback(() => {
+        cancelFlushRef.current?.()
+        cancelFlushRef.current = null
+        updateMessages(() => [])
+        setError(null)
+        setUploadedPdfs([])
+        setHasMore(false)
+        historyGenerationRef.current++
+        accumulatedContentRef.current = ''
+        contentSegmentsRef.current = []
+        currentTextSegmentRef.current = ''
+        toolOutputsRef.current = []
+        citationsRef.current = []
+    }, [updateMessages])
+
+    /**
+     * Append a complete message to the chat history.
+     * Useful for adding messages without using StreamSSE.
+     *
+     * @example
+     * ```tsx
+     * // Add a message from your own API response
+     * const response = await fetch('/my-api', { body: { question } })
+     * const data = await response.json()
+     * appendMessage({ role: 'assistant', content: data.answer })
+     * ```
+     */
+    const appendMessage = useCallback(
+        (
+            message: Omit<IMessage, 'id' | 'timestamp'> & {
+                id?: string
+                timestamp?: Date
             },
-            signal: abortControllerRef.current.signal,
-          });
-        } else {
-          console.error(
-            "Neither sendMessageToApi nor streamConfig provided to useChatMessages",
-          );
-          setIsStreaming(false);
-        }
-      } catch (error) {
-        console.error("Send message error:", error);
-        setIsStreaming(false);
-        abortControllerRef.current = null;
-      }
-    },
-    [
-      messages,
-      uploadedPdfs,
-      sendMessageToApi,
-      streamConfig,
-      handleStreamEvent,
-      finalizeAssistantMessage,
-      generateId,
-      trimMessages,
-    ],
-  );
-
-  // Handle stopping streaming
-  const stopStreaming = useCallback(() => {
-    if (abortControllerRef.current) {
-      abortControllerRef.current.abort();
-      abortControllerRef.current = null;
-      setIsStreaming(false);
-
-      // Reset accumulated content
-      accumulatedContentRef.current = "";
-      contentSegmentsRef.current = [];
-      currentTextSegmentRef.current = "";
-
-      // Remove the last message if it has no content
-      setMessages((prev) => {
-        const lastMessage = prev[prev.length - 1];
-        if (
-          lastMessage &&
-          lastMessage.role === "assistant" &&
-          !lastMessage.content.trim()
-        ) {
-          return prev.slice(0, -1);
+        ) => {
+            const fullMessage: IMessage = {
+                id: message.id ?? generateId(),
+                timestamp: message.timestamp ?? new Date(),
+                ...message,
+            }
+            updateMessages((prev) => trimMessages([...prev, fullMessage]))
+        },
+        [generateId, trimMessages, updateMessages],
+    )
+
+    /**
+     * Convenience method to append a user message with just content.
+     *
+     * @example
+     * ```tsx
+     * appendUserMessage('What is the weather today?')
+     * ```
+     */
+    const appendUserMessage = useCallback(
+        (content: string, attachedFiles?: IPdfFile[]) => {
+            appendMessage({ role: 'user', content, attachedFiles })
+        },
+        [appendMessage],
+    )
+
+    /**
+     * Convenience method to append an assistant message with just content.
+     *
+     * @example
+     * ```tsx
+     * const response = await myApi.chat(question)
+     * appendAssistantMessage(response.answer)
+     * ```
+     */
+    const appendAssistantMessage = useCallback(
+        (content: string) => {
+            appendMessage({ role: 'assistant', content })
+        },
+        [appendMessage],
+    )
+
+    /**
+     * Replace the messages, e.g. with a conversation from your own store.
+     * Accepts the new messages or an update function, like React's `setState`.
+     * A response that is streaming continues in its message if it is still
+     * there, and stops if it was removed.
+     *
+     * @example
+     * ```tsx
+     * setMessages((prev) => prev.filter((message) => !message.error))
+     * ```
+     */
+    const setMessages = useCallback(
+        (action: IMessage[] | ((prev: IMessage[]) => IMessage[])) => {
+            // An update function sees the tokens that are still batched
+            flushStreamingMessage()
+            updateMessages(typeof action === 'function' ? action : () => action)
+            adoptStreamingMessage(messagesRef.current)
+        },
+        [flushStreamingMessage, updateMessages, adoptStreamingMessage],
+    )
+
+    /**
+     * Load the page of messages before the oldest one via `loadOlderMessages`
+     * and prepend it. Does nothing while a page is loading or when there are
+     * no older messages.
+     */
+    const oldestMessage = messages[0]
+    const loadOlder = useCallback(async () => {
+        if (!loadOlderMessages || !hasMore || isLoadingOlderRef.current) return
+
+        const generation = historyGenerationRef.current
+        isLoadingOlderRef.current = true
+        setIsLoadingOlder(true)
+        try {
+            const page = await loadOlderMessages(oldestMessage)
+            if (generation !== historyGenerationRef.current) return
+            // Skip messages that are already shown (e.g. overlapping pages)
+            const shownIds = new Set(messagesRef.current.map((message) => message.id))
+            const olderMessages = page.messages.filter((message) => !shownIds.has(message.id))
+            if (olderMessages.length > 0) updateMessages((prev) => [...olderMessages, ...prev])
+            // A page that adds nothing would be requested again and again
+            setHasMore(page.hasMore && olderMessages.length > 0)
+        } catch (loadError) {
+            console.error('Failed to load older messages:', loadError)
+            // Stop loading (and ChatContainer from filling the view) until the
+            // conversation is cleared or switched
+            setHasMore(false)
+        } finally {
+            isLoadingOlderRef.current = false
+            setIsLoadingOlder(false)
         }
-        return prev;
-      });
+    }, [loadOlderMessages, hasMore, oldestMessage, updateMessages])
+
+    // Tokens and cost of every answer in the conversation
+    const usage = useMemo(() => getConversationUsage(messages, models), [messages, models])
+
+    return {
+        messages,
+        isStreaming,
+        error,
+        uploadedPdfs,
+        hasMore,
+        isLoadingOlder,
+        isHydrated,
+        usage,
+        sendMessage,
+        retryMessage,
+        regenerate,
+        selectVersion,
+        continueGeneration,
+        editMessage,
+        selectBranch,
+        stopStreaming,
+        setMessages,
+        loadOlder,
+        addPdf,
+        removePdf,
+        clearChat,
+        appendMessage,
+        appendUserMessage,
+        appendAssistantMessage,
     }
-  }, []);
-
-  // Handle adding PDF
-  const addPdf = useCallback((pdf: IPdfFile) => {
-    setUploadedPdfs((prev) => [...prev, pdf]);
-  }, []);
-
-  // Handle removing PDF
-  const removePdf = useCallback((uuid: string) => {
-    setUploadedPdfs((prev) => prev.filter((pdf) => pdf.uuid !== uuid));
-  }, []);
-
-  // Handle clearing chat
-  const clearChat = useCallback(() => {
-    setMessages([]);
-    setUploadedPdfs([]);
-    accumulatedContentRef.current = "";
-    contentSegmentsRef.current = [];
-    currentTextSegmentRef.current = "";
-  }, []);
-
-  /**
-   * Append a complete message to the chat history.
-   * Useful for adding messages without using StreamSSE.
-   *
-   * @example
-   * ```tsx
-   * // Add a message from your own API response
-   * const response = await fetch('/my-api', { body: { question } })
-   * const data = await response.json()
-   * appendMessage({ role: 'assistant', content: data.answer })
-   * ```
-   */
-  const appendMessage = useCallback(
-    (
-      message: Omit<IMessage, "id" | "timestamp"> & {
-        id?: string;
-        timestamp?: Date;
-      },
-    ) => {
-      const fullMessage: IMessage = {
-        id: message.id ?? generateId(),
-        timestamp: message.timestamp ?? new Date(),
-        ...message,
-      };
-      setMessages((prev) => trimMessages([...prev, fullMessage]));
-    },
-    [generateId, trimMessages],
-  );
-
-  /**
-   * Convenience method to append a user message with just content.
-   *
-   * @example
-   * ```tsx
-   * appendUserMessage('What is the weather today?')
-   * ```
-   */
-  const appendUserMessage = useCallback(
-    (content: string, attachedFiles?: IPdfFile[]) => {
-      appendMessage({ role: "user", content, attachedFiles });
-    },
-    [appendMessage],
-  );
-
-  /**
-   * Convenience method to append an assistant message with just content.
-   *
-   * @example
-   * ```tsx
-   * const response = await myApi.chat(question)
-   * appendAssistantMessage(response.answer)
-   * ```
-   */
-  const appendAssistantMessage = useCallback(
-    (content: string) => {
-      appendMessage({ role: "assistant", content });
-    },
-    [appendMessage],
-  );
-
-  return {
-    messages,
-    isStreaming,
-    uploadedPdfs,
-    sendMessage,
-    stopStreaming,
-    addPdf,
-    removePdf,
-    clearChat,
-    appendMessage,
-    appendUserMessage,
-    appendAssistantMessage,
-  };
-};
+}
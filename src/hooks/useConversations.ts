@@ -0,0 +1,335 @@
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react'
+import { v4 as uuidv4 } from 'uuid'
+import type { IConversation, IMessage } from '../types'
+import type { IChatStorage } from '../storage/types'
+
+/** Longest title derived from the first user message */
+const MAX_DERIVED_TITLE_LENGTH = 60
+
+/**
+ * Configuration options for the useConversations hook.
+ */
+export interface IUseConversationsOptions {
+    /**
+     * Storage that persists the conversation list, usually the one passed to
+     * `useChatMessages`. The list is saved with `saveConversations`, and
+     * deleting a conversation deletes its stored messages.
+     */
+    storage?: IChatStorage
+    /** Conversations to start with, e.g. from your backend */
+    initialConversations?: IConversation[]
+    /**
+     * Conversation to open initially (default: the one in `urlParam`, or a
+     * new conversation)
+     */
+    initialConversationId?: string
+    /**
+     * Query parameter that mirrors the active conversation id, e.g. `'chat'`
+     * for `?chat=<id>`. The conversation in the URL is opened on load, and
+     * switching conversations updates the URL without adding history entries.
+     */
+    urlParam?: string
+    /** Title of new conversations until their first message (default: `'New chat'`) */
+    defaultTitle?: string
+    /** Custom ID generator for new conversations */
+    generateId?: () => string
+}
+
+/**
+ * Options for creating a conversation.
+ */
+export interface ICreateConversationOptions {
+    /** Title of the conversation (default: `defaultTitle`) */
+    title?: string
+    /** Model the conversation uses */
+    model?: string
+}
+
+const readUrlParam = (urlParam: string | undefined): string | undefined => {
+    if (!urlParam || typeof window === 'undefined') return undefined
+    return new URLSearchParams(window.location.search).get(urlParam) ?? undefined
+}
+
+/**
+ * Derives a title from the first user message: its first line, shortened.
+ */
+const deriveTitle = (messages: IMessage[]): string | undefined => {
+    const firstUserMessage = messages.find((message) => message.role === 'user')
+    const line = firstUserMessage?.content.trim().split('\n')[0].replace(/\s+/g, ' ')
+    if (!line) return undefined
+    return line.length > MAX_DERIVED_TITLE_LENGTH
+        ? `${line.slice(0, MAX_DERIVED_TITLE_LENGTH - 1).trimEnd()}…`
+        : line
+}
+
+/**
+ * Filters conversations by title. Every word of the query must appear in
+ * the title, ignoring case.
+ *
+ * @example
+ * ```ts
+ * searchConversations(conversations, 'tax report')
+ * ```
+ */
+export const searchConversations = (
+    conversations: IConversation[],
+    query: string,
+): IConversation[] => {
+    const words = query.toLowerCase().split(/\s+/).filter(Boolean)
+    if (words.length === 0) return conversations
+    return conversations.filter((conversation) => {
+        const title = conversation.title.toLowerCase()
+        return words.every((word) => title.includes(word))
+    })
+}
+
+/**
+ * Hook to manage a list of conversations: create, switch, rename, delete
+ * and search. Pair it with `useChatMessages`, which loads and saves the
+ * messages of the active conversation, and `ConversationList` to show the
+ * list.
+ *
+ * A new conversation is listed once it has messages: call
+ * `updateFromMessages` whenever the messages change. It also keeps
+ * `updatedAt` and `model` current, and titles the conversation after the
+ * first user message.
+ *
+ * @example
+ * ```tsx
+ * const conversations = useConversations({ storage, urlParam: 'chat' })
+ * const chat = useChatMessages({
+ *   transport,
+ *   storage,
+ *   conversationId: conversations.activeConversationId,
+ * })
+ *
+ * const { activeConversationId, updateFromMessages } = conversations
+ * useEffect(() => {
+ *   updateFromMessages(activeConversationId, chat.messages)
+ * }, [activeConversationId, chat.messages, updateFromMessages])
+ * ```
+ */
+export function useConversations(options: IUseConversationsOptions = {}) {
+    const {
+        storage,
+        initialConversations = [],
+        initialConversationId,
+        urlParam,
+        defaultTitle = 'New chat',
+        generateId = () => uuidv4(),
+    } = options
+
+    const [conversations, setConversations] = useState<IConversation[]>(initialConversations)
+    const [activeConversationId, setActiveConversationId] = useState<string>(
+        () => readUrlParam(urlParam) ?? initialConversationId ?? generateId(),
+    )
+
+    // The latest storage, so a storage created during render doesn't reload the list
+    const storageRef = useRef(storage)
+    storageRef.current = storage
+    const canPersistList = Boolean(storage?.loadConversations)
+    const [isLoaded, setIsLoaded] = useState(!canPersistList)
+
+    // Restore the stored list
+    useEffect(() => {
+        const loadConversations = storageRef.current?.loadConversations
+        if (!loadConversations) return
+        let isCancelled = false
+
+        loadConversations()
+            .then((stored) => {
+                if (isCancelled || !stored) return
+                // Keep conversations created while the list was loading
+                setConversations((prev) => {
+                    const storedIds = new Set(stored.map((conversation) => conversation.id))
+                    return [
+                        ...stored,
+                        ...prev.filter((conversation) => !storedIds.has(conversation.id)),
+                    ]
+                })
+            })
+            .catch((loadError: unknown) => {
+                console.error('Failed to restore the conversations:', loadError)
+            })
+            .finally(() => {
+                if (!isCancelled) setIsLoaded(true)
+            })
+
+        return () => {
+            isCancelled = true
+        }
+    }, [canPersistList])
+
+    // Save the list as it changes
+    useEffect(() => {
+        const saveConversations = storageRef.current?.saveConversations
+        if (!saveConversations || !isLoaded) return
+        saveConversations(conversations).catch((saveError: unknown) => {
+            console.error('Failed to save the conversations:', saveError)
+        })
+    }, [conversations, isLoaded])
+
+    // Mirror the active conversation in the URL
+    useEffect(() => {
+        if (!urlParam || typeof window === 'undefined') return
+        const url = new URL(window.location.href)
+        if (url.searchParams.get(urlParam) === activeConversationId) return
+        url.searchParams.set(urlParam, activeConversationId)
+        window.history.replaceState(window.history.state, '', url)
+    }, [urlParam, activeConversationId])
+
+    // Follow the URL on back/forward navigation
+    useEffect(() => {
+        if (!urlParam || typeof window === 'undefined') return
+        const handlePopState = () => {
+            const id = readUrlParam(urlParam)
+            if (id) setActiveConversationId(id)
+        }
+        window.addEventListener('popstate', handlePopState)
+        return () => window.removeEventListener('popstate', handlePopState)
+    }, [urlParam])
+
+    // Most recently updated first
+    const sortedConversations = useMemo(
+        () =>
+            [...conversations].sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime()),
+        [conversations],
+    )
+
+    const activeConversation = conversations.find(
+        (conversation) => conversation.id === activeConversationId,
+    )
+
+    const createConversation = useCallback(
+        ({ title, model }: ICreateConversationOptions = {}): IConversation => {
+            const now = new Date()
+            const conversation: IConversation = {
+                id: generateId(),
+                title: title ?? defaultTitle,
+                createdAt: now,
+                updatedAt: now,
+                model,
+            }
+            setConversations((prev) => [...prev, conversation])
+            setActiveConversationId(conversation.id)
+            return conversation
+        },
+        [generateId, defaultTitle],
+    )
+
+    const switchConversation = useCallback((conversationId: string) => {
+        setActiveConversationId(conversationId)
+    }, [])
+
+    const updateConversation = useCallback(
+        (conversationId: string, changes: Partial<Omit<IConversation, 'id'>>) => {
+            setConversations((prev) =>
+                prev.map((conversation) =>
+                    conversation.id === conversationId
+                        ? { ...conversation, ...changes }
+                        : conversation,
+                ),
+            )
+        },
+        [],
+    )
+
+    const renameConversation = useCallback(
+        (conversationId: string, title: string) => {
+            const trimmed = title.trim()
+            if (trimmed) updateConversation(conversationId, { title: trimmed })
+        },
+        [updateConversation],
+    )
+
+    /**
+     * Removes a conversation and deletes its stored messages. Deleting the
+     * active conversation opens the most recent remaining one, or a new one.
+     */
+    const deleteConversation = useCallback(
+        (conversationId: string) => {
+            setConversations((prev) =>
+                prev.filter((conversation) => conversation.id !== conversationId),
+            )
+            storageRef.current?.delete(conversationId).catch((deleteError: unknown) => {
+                console.error('Failed to delete the conversation:', deleteError)
+            })
+            if (conversationId === activeConversationId) {
+                const next = sortedConversations.find(
+                    (conversation) => conversation.id !== conversationId,
+                )
+                setActiveConversationId(next?.id ?? generateId())
+            }
+        },
+        [activeConversationId, sortedConversations, generateId],
+    )
+
+    /**
+     * Brings a conversation up to date with its messages: lists it if it is
+     * new, and updates `updatedAt`, `model` and its default title. Does
+     * nothing for an empty conversation.
+     */
+    const updateFromMessages = useCallback(
+        (conversationId: string, messages: IMessage[]) => {
+            const lastMessage = messages[messages.length - 1]
+            if (!lastMessage) return
+            const latestModel = [...messages]
+                .reverse()
+                .find((message) => message.role === 'assistant')?.model
+
+            setConversations((prev) => {
+                const existing = prev.find((conversation) => conversation.id === conversationId)
+                const title =
+                    !existing || existing.title === defaultTitle
+                        ? (deriveTitle(messages) ?? defaultTitle)
+                        : existing.title
+                const model = latestModel ?? existing?.model
+
+                if (!existing) {
+                    return [
+                        ...prev,
+                        {
+                            id: conversationId,
+                            title,
+                            createdAt: messages[0].timestamp,
+                            updatedAt: lastMessage.timestamp,
+                            model,
+                        },
+                    ]
+                }
+                if (
+                    existing.title === title &&
+                    existing.model === model &&
+                    existing.updatedAt.getTime() === lastMessage.timestamp.getTime()
+                ) {
+                    return prev
+                }
+                return prev.map((conversation) =>
+                    conversation === existing
+                        ? { ...conversation, title, model, updatedAt: lastMessage.timestamp }
+                        : conversation,
+                )
+            })
+        },
+        [defaultTitle],
+    )
+
+    const search = useCallback(
+        (query: string) => searchConversations(sortedConversations, query),
+        [sortedConversations],
+    )
+
+    return {
+        conversations: sortedConversations,
+        activeConversation,
+        activeConversationId,
+        isLoaded,
+        createConversation,
+        switchConversation,
+        renameConversation,
+        updateConversation,
+        deleteConversation,
+        searchConversations: search,
+        updateFromMessages,
+    }
+}
@@ -1,5 +1,15 @@
 import { useState, useCallback } from 'react'
 
+/**
+ * Prices of a model, per million tokens, in the currency you bill in.
+ */
+export interface IModelPricing {
+    /** Price of one million input (prompt) tokens */
+    inputPerMillionTokens: number
+    /** Price of one million output (generated) tokens */
+    outputPerMillionTokens: number
+}
+
 /**
  * Represents an AI model option for selection.
  */
@@ -10,6 +20,8 @@ export interface IModelOption {
     name: string
     /** Optional description of the model's capabilities */
     description?: string
+    /** Optional prices, to compute the cost of token usage */
+    pricing?: IModelPricing
 }
 
 /**
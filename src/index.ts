@@ -3,8 +3,20 @@
 // ============================================================================
 
 // ChatConfigProvider - wrap your app to provide custom configuration
-export { ChatConfigProvider, useChatConfig, defaultEventAdapter } from './context'
-export type { IChatConfig, IChatConfigProviderProps, IStreamEvent } from './context'
+export {
+    ChatConfigProvider,
+    useChatConfig,
+    useChatTheme,
+    useAssistantIcon,
+    defaultEventAdapter,
+} from './context'
+export type {
+    IChatConfig,
+    IChatConfigProviderProps,
+    IStreamEvent,
+    IToolRendererComponentProps,
+    IToolRegistry,
+} from './context'
 
 // ============================================================================
 // Main Components
@@ -16,7 +28,7 @@ export type { IChatPanelProps } from './components/ChatPanel'
 
 // Individual components for custom layouts
 export { ChatContainer } from './components/ChatContainer'
-export type { IChatContainerProps } from './components/ChatContainer'
+export type { IChatContainerHandle, IChatContainerProps } from './components/ChatContainer'
 export { ChatInput } from './components/ChatInput'
 export { ChatInputMinimal } from './components/ChatInputMinimal'
 export type { IChatInputMinimalProps } from './components/ChatInputMinimal'
@@ -28,8 +40,17 @@ export { AssistantMessage } from './components/AssistantMessage'
 export type { IAssistantMessageProps } from './components/AssistantMessage'
 export { MessageContentRenderer } from './components/MessageContentRenderer'
 export type { IMessageContentRendererProps } from './components/MessageContentRenderer'
+export { ToolOutput } from './components/ToolOutput'
+export type { IToolOutputProps } from './components/ToolOutput'
+export { ReasoningBlock } from './components/ReasoningBlock'
+export type { IReasoningBlockProps } from './components/ReasoningBlock'
+export { CitationChip, SourceList } from './components/Citations'
+export type { ICitationChipProps, ISourceListProps } from './components/Citations'
+export { DefaultToolRenderer } from './components/DefaultToolRenderer'
 export { SuggestedQuestions } from './components/SuggestedQuestions'
 export type { ISuggestedQuestionsProps } from './components/SuggestedQuestions'
+export { ConversationList } from './components/ConversationList'
+export type { IConversationListProps } from './components/ConversationList'
 
 // Error Boundaries
 export { ErrorBoundary, MessageErrorBoundary } from './components/ErrorBoundary'
@@ -40,10 +61,26 @@ export type { IErrorBoundaryProps, IMessageErrorBoundaryProps } from './componen
 // ============================================================================
 
 export { useChatMessages } from './hooks/useChatMessages'
-export type { ISendMessageParams, IUseChatMessagesOptions } from './hooks/useChatMessages'
+export type {
+    IOlderMessagesPage,
+    IRegenerateOptions,
+    IEditMessageOptions,
+    ISendMessageParams,
+    IUseChatMessagesOptions,
+} from './hooks/useChatMessages'
 
 export { useModelSelection } from './hooks/useModelSelection'
-export type { IUseModelSelectionOptions, IModelOption } from './hooks/useModelSelection'
+export type {
+    IUseModelSelectionOptions,
+    IModelOption,
+    IModelPricing,
+} from './hooks/useModelSelection'
+
+export { useConversations, searchConversations } from './hooks/useConversations'
+export type {
+    IUseConversationsOptions,
+    ICreateConversationOptions,
+} from './hooks/useConversations'
 
 // ============================================================================
 // Types
@@ -52,9 +89,21 @@ export type { IUseModelSelectionOptions, IModelOption } from './hooks/useModelSe
 // Core message types
 export type {
     IMessage,
+    MessageStatus,
+    StopReason,
+    FinishReason,
+    ITokenUsage,
+    IMessageError,
+    IMessageVersion,
     IToolOutput,
+    ToolCallStatus,
     IContentSegment,
+    ITextSegment,
+    IToolSegment,
+    IReasoningSegment,
     IPdfFile,
+    ICitation,
+    IConversation,
     MessageRole,
     ChatTheme,
 } from './types'
@@ -85,17 +134,73 @@ export { createGeminiAdapter, geminiTextAdapter } from './adapters'
 // Adapter types
 export type {
     EventAdapter,
+    EventAdapterResult,
     IOpenAIStreamChunk,
+    IOpenAIReasoningSummaryEvent,
     IAnthropicStreamEvent,
     IGeminiStreamChunk,
+    IGeminiSafetyRating,
 } from './adapters'
 
+// ============================================================================
+// Transports (also available via @pulse8-ai/chat/transports)
+// ============================================================================
+
+export { sseTransport, websocketTransport, eventSourceTransport } from './transports'
+export type {
+    IChatTransport,
+    IChatTransportRequest,
+    ITransportBaseOptions,
+    ISSETransportOptions,
+    IWebSocketTransportOptions,
+    IEventSourceTransportOptions,
+} from './transports'
+
+// ============================================================================
+// Storage (also available via @pulse8-ai/chat/storage)
+// ============================================================================
+
+export {
+    localStorageChatStorage,
+    indexedDBChatStorage,
+    toStoredConversation,
+    fromStoredConversation,
+    fromStoredConversationList,
+} from './storage'
+export type {
+    IChatStorage,
+    IChatStorageOptions,
+    IStoredConversation,
+    ILocalStorageChatStorageOptions,
+    IIndexedDBChatStorageOptions,
+} from './storage'
+
 // ============================================================================
 // Streaming Utilities (also available via @pulse8-ai/chat/utils)
 // ============================================================================
 
-export { streamSSE, parseSSELine, createSSEParser } from './utils'
-export type { ISSEParserOptions, IStreamSSEOptions } from './utils'
+export { streamSSE, parseSSELine, createSSEParser, toStreamEvents } from './utils'
+export {
+    ChatStreamError,
+    HttpError,
+    RateLimitError,
+    NetworkError,
+    AbortError,
+    ParseError,
+    ProviderError,
+    isAbortError,
+    toChatStreamError,
+} from './utils'
+export { getConversationUsage, getUsageCost } from './utils'
+export type {
+    IConversationUsage,
+    IModelUsage,
+    ISSEParserOptions,
+    ISSEMessage,
+    IStreamSSEOptions,
+    IStreamRetryOptions,
+    IStreamRetryInfo,
+} from './utils'
 
 // ============================================================================
 // UI Components (also available via @pulse8-ai/chat/ui)
@@ -0,0 +1,66 @@
+import type { IMessage } from '../types'
+
+interface IPendingWrite {
+    messages: IMessage[]
+    timer: ReturnType<typeof setTimeout>
+    waiters: { resolve: () => void; reject: (error: unknown) => void }[]
+}
+
+/**
+ * Collapses the saves of each conversation made within `delayMs` of each
+ * other into one write of the latest messages. Pending writes are flushed
+ * when the page is hidden, so a reload doesn't lose the last changes.
+ */
+export const createDebouncedWriter = (
+    write: (conversationId: string, messages: IMessage[]) => Promise<void>,
+    delayMs: number,
+) => {
+    const pending = new Map<string, IPendingWrite>()
+
+    const flush = (conversationId: string) => {
+        const entry = pending.get(conversationId)
+        if (!entry) return
+        clearTimeout(entry.timer)
+        pending.delete(conversationId)
+        if (pending.size === 0) stopWatchingPage()
+
+        write(conversationId, entry.messages).then(
+            () => entry.waiters.forEach((waiter) => waiter.resolve()),
+            (error: unknown) => entry.waiters.forEach((waiter) => waiter.reject(error)),
+        )
+    }
+
+    const flushAll = () => [...pending.keys()].forEach(flush)
+
+    const watchPage = () => {
+        if (typeof window !== 'undefined') window.addEventListener('pagehide', flushAll)
+    }
+    const stopWatchingPage = () => {
+        if (typeof window !== 'undefined') window.removeEventListener('pagehide', flushAll)
+    }
+
+    return {
+        /** Schedules a write, replacing a pending one for the same conversation */
+        schedule: (conversationId: string, messages: IMessage[]): Promise<void> =>
+            new Promise((resolve, reject) => {
+                const entry = pending.get(conversationId)
+                if (entry) clearTimeout(entry.timer)
+                else if (pending.size === 0) watchPage()
+
+                pending.set(conversationId, {
+                    messages,
+                    timer: setTimeout(() => flush(conversationId), delayMs),
+                    waiters: [...(entry?.waiters ?? []), { resolve, reject }],
+                })
+            }),
+        /** Drops a pending write, e.g. before deleting the conversation */
+        cancel: (conversationId: string) => {
+            const entry = pending.get(conversationId)
+            if (!entry) return
+            clearTimeout(entry.timer)
+            pending.delete(conversationId)
+            if (pending.size === 0) stopWatchingPage()
+            entry.waiters.forEach((waiter) => waiter.resolve())
+        },
+    }
+}
@@ -0,0 +1,27 @@
+// ============================================================================
+// Pre-built Storages
+// ============================================================================
+
+// One localStorage (or sessionStorage) key per conversation
+export { localStorageChatStorage } from './localStorage'
+
+// One IndexedDB record per conversation
+export { indexedDBChatStorage } from './indexedDB'
+
+// ============================================================================
+// Serialization (for custom storages)
+// ============================================================================
+
+export {
+    toStoredConversation,
+    fromStoredConversation,
+    fromStoredConversationList,
+} from './serialization'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type { IChatStorage, IChatStorageOptions, IStoredConversation } from './types'
+export type { ILocalStorageChatStorageOptions } from './localStorage'
+export type { IIndexedDBChatStorageOptions } from './indexedDB'
@@ -0,0 +1,98 @@
+import { createDebouncedWriter } from './debounce'
+import {
+    CONVERSATION_LIST_KEY,
+    fromStoredConversation,
+    fromStoredConversationList,
+    toStoredConversation,
+} from './serialization'
+import type { IChatStorage, IChatStorageOptions } from './types'
+
+/**
+ * Options for indexedDBChatStorage
+ */
+export interface IIndexedDBChatStorageOptions extends IChatStorageOptions {
+    /** Database name (default: `'pulse8-chat'`) */
+    databaseName?: string
+    /** Object store holding one record per conversation (default: `'conversations'`) */
+    storeName?: string
+}
+
+/**
+ * Wraps an IndexedDB request in a promise
+ */
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+    })
+
+/**
+ * Storage that keeps each conversation as one record in an IndexedDB object
+ * store, keyed by conversation id. Writes are debounced; IndexedDB has far
+ * more room than localStorage and doesn't block the main thread.
+ *
+ * The database is opened on first use. In environments without IndexedDB
+ * (e.g. server rendering) loads resolve to `null` and saves are skipped.
+ *
+ * @example
+ * ```tsx
+ * const storage = indexedDBChatStorage({ databaseName: 'support-chat', version: 2, migrate })
+ *
+ * const chat = useChatMessages({ transport, storage })
+ * ```
+ */
+export const indexedDBChatStorage = (options: IIndexedDBChatStorageOptions = {}): IChatStorage => {
+    const { databaseName = 'pulse8-chat', storeName = 'conversations', debounceMs = 500 } = options
+
+    let database: Promise<IDBDatabase> | null = null
+    const openDatabase = (): Promise<IDBDatabase> | null => {
+        if (typeof indexedDB === 'undefined') return null
+        if (!database) {
+            const request = indexedDB.open(databaseName, 1)
+            request.onupgradeneeded = () => {
+                if (!request.result.objectStoreNames.contains(storeName)) {
+                    request.result.createObjectStore(storeName)
+                }
+            }
+            database = requestToPromise(request)
+            // Allow a later call to retry after a failed open
+            database.catch(() => {
+                database = null
+            })
+        }
+        return database
+    }
+
+    const withStore = async <T>(
+        mode: IDBTransactionMode,
+        run: (store: IDBObjectStore) => IDBRequest<T>,
+    ): Promise<T | null> => {
+        const db = await openDatabase()
+        if (!db) return null
+        return requestToPromise(run(db.transaction(storeName, mode).objectStore(storeName)))
+    }
+
+    const writer = createDebouncedWriter(async (conversationId, messages) => {
+        const record = toStoredConversation(messages, options)
+        await withStore('readwrite', (store) => store.put(record, conversationId))
+    }, debounceMs)
+
+    return {
+        load: async (conversationId) => {
+            const record = await withStore('readonly', (store) => store.get(conversationId))
+            return record ? fromStoredConversation(record, options) : null
+        },
+        save: (conversationId, messages) => writer.schedule(conversationId, messages),
+        delete: async (conversationId) => {
+            writer.cancel(conversationId)
+            await withStore('readwrite', (store) => store.delete(conversationId))
+        },
+        loadConversations: async () => {
+            const record = await withStore('readonly', (store) => store.get(CONVERSATION_LIST_KEY))
+            return record ? fromStoredConversationList(record) : null
+        },
+        saveConversations: async (conversations) => {
+            await withStore('readwrite', (store) => store.put(conversations, CONVERSATION_LIST_KEY))
+        },
+    }
+}
@@ -0,0 +1,80 @@
+import { createDebouncedWriter } from './debounce'
+import {
+    CONVERSATION_LIST_KEY,
+    fromStoredConversation,
+    fromStoredConversationList,
+    toStoredConversation,
+} from './serialization'
+import type { IChatStorage, IChatStorageOptions } from './types'
+
+/**
+ * Options for localStorageChatStorage
+ */
+export interface ILocalStorageChatStorageOptions extends IChatStorageOptions {
+    /** Prefix of the storage keys, followed by the conversation id (default: `'pulse8-chat:'`) */
+    keyPrefix?: string
+    /** Web Storage to use, e.g. `sessionStorage` (default: `localStorage`) */
+    storage?: Storage
+}
+
+/**
+ * Storage that keeps each conversation as JSON under its own
+ * `localStorage` key. Writes are debounced and flushed when the page is
+ * hidden.
+ *
+ * localStorage is synchronous and limited to a few megabytes per origin;
+ * for long conversations with large tool outputs, prefer
+ * `indexedDBChatStorage`. A write that exceeds the quota rejects `save`.
+ *
+ * @example
+ * ```tsx
+ * const storage = localStorageChatStorage({ maxMessages: 200 })
+ *
+ * const chat = useChatMessages({ transport, storage, conversationId: 'support' })
+ * ```
+ */
+export const localStorageChatStorage = (
+    options: ILocalStorageChatStorageOptions = {},
+): IChatStorage => {
+    const { keyPrefix = 'pulse8-chat:', storage, debounceMs = 500 } = options
+
+    const getStorage = (): Storage | null => {
+        if (storage) return storage
+        return typeof localStorage === 'undefined' ? null : localStorage
+    }
+
+    const writer = createDebouncedWriter(async (conversationId, messages) => {
+        const record = toStoredConversation(messages, options)
+        getStorage()?.setItem(keyPrefix + conversationId, JSON.stringify(record))
+    }, debounceMs)
+
+    return {
+        load: async (conversationId) => {
+            const raw = getStorage()?.getItem(keyPrefix + conversationId)
+            if (!raw) return null
+            try {
+                return fromStoredConversation(JSON.parse(raw), options)
+            } catch {
+                // Corrupted entry: start over rather than failing every load
+                return null
+            }
+        },
+        save: (conversationId, messages) => writer.schedule(conversationId, messages),
+        delete: async (conversationId) => {
+            writer.cancel(conversationId)
+            getStorage()?.removeItem(keyPrefix + conversationId)
+        },
+        loadConversations: async () => {
+            const raw = getStorage()?.getItem(keyPrefix + CONVERSATION_LIST_KEY)
+            if (!raw) return null
+            try {
+                return fromStoredConversationList(JSON.parse(raw))
+            } catch {
+                return null
+            }
+        },
+        saveConversations: async (conversations) => {
+            getStorage()?.setItem(keyPrefix + CONVERSATION_LIST_KEY, JSON.stringify(conversations))
+        },
+    }
+}
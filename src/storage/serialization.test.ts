@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest'
+import { fromStoredConversation, toStoredConversation } from './serialization'
+import { addBranch, showBranch } from '../utils/messageBranches'
+import type { IMessage } from '../types'
+
+const message = (id: string, role: IMessage['role']): IMessage => ({
+    id,
+    role,
+    content: id,
+    timestamp: new Date('2026-10-19T12:00:00Z'),
+})
+
+/**
+ * A JSON round trip through a stored record
+ */
+const roundTrip = (messages: IMessage[], maxMessages?: number) =>
+    fromStoredConversation(
+        JSON.parse(JSON.stringify(toStoredConversation(messages, { maxMessages }))),
+    )
+
+const ids = (messages: IMessage[] | null) => messages?.map((m) => m.id)
+
+const exchanges = (count: number, prefix = '') =>
+    Array.from({ length: count }, (_, i) => [
+        message(`${prefix}q${i + 1}`, 'user'),
+        message(`${prefix}a${i + 1}`, 'assistant'),
+    ]).flat()
+
+/**
+ * Three exchanges, with the second question edited: the original second and
+ * third exchanges are kept as the first branch
+ */
+const branchedConversation = () => {
+    const messages = addBranch(exchanges(3), 2, message('q2 edited', 'user'))
+    return [...messages, message('a2 edited', 'assistant')]
+}
+
+describe('stored conversations', () => {
+    it('keeps every branch through a round trip', () => {
+        const messages = branchedConversation()
+        const restored = roundTrip(messages)
+
+        expect(restored).toEqual(messages)
+        expect(restored?.[2].branches?.[0][0].timestamp).toBeInstanceOf(Date)
+        expect(ids(showBranch(restored ?? [], 2, 0))).toEqual(ids(exchanges(3)))
+    })
+
+    it('drops whole exchanges to stay within maxMessages', () => {
+        expect(ids(roundTrip(exchanges(3), 3))).toEqual(['q3', 'a3'])
+        expect(ids(roundTrip(exchanges(3), 4))).toEqual(['q2', 'a2', 'q3', 'a3'])
+    })
+
+    it('drops exchanges before an edited message only', () => {
+        const messages = [...exchanges(1, 'old '), ...branchedConversation()]
+        const restored = roundTrip(messages, 4)
+
+        expect(ids(restored)).toEqual(['q1', 'a1', 'q2 edited', 'a2 edited'])
+        expect(restored?.[2].branches?.map(ids)).toEqual([
+            ['q2', 'a2', 'q3', 'a3'],
+            ['q2 edited'],
+        ])
+    })
+
+    it('keeps the edited message and its branches beyond maxMessages', () => {
+        const restored = roundTrip(branchedConversation(), 1)
+
+        expect(ids(restored)).toEqual(['q2 edited', 'a2 edited'])
+        expect(ids(showBranch(restored ?? [], 0, 0))).toEqual(['q2', 'a2', 'q3', 'a3'])
+    })
+})
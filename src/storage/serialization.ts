@@ -0,0 +1,168 @@
+import type {
+    IConversation,
+    IContentSegment,
+    IMessage,
+    IMessageVersion,
+    IToolOutput,
+} from '../types'
+import type { IChatStorageOptions, IStoredConversation } from './types'
+import { keepLatestMessages } from '../utils/messageBranches'
+
+/** Schema version used when none is configured */
+export const DEFAULT_STORAGE_VERSION = 1
+
+/** Key the built-in storages keep the conversation list under */
+export const CONVERSATION_LIST_KEY = '__conversations'
+
+type SerializationOptions = Pick<IChatStorageOptions, 'version' | 'migrate' | 'maxMessages'>
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const toDate = (value: unknown): Date | undefined => {
+    if (value === undefined || value === null) return undefined
+    const date = new Date(value as string | number | Date)
+    return Number.isNaN(date.getTime()) ? undefined : date
+}
+
+/**
+ * Revives the dates of stored tool calls. Calls still running when an
+ * interrupted response was saved are marked as failed.
+ */
+const reviveToolOutputs = (tools: unknown[], wasInterrupted: boolean): IToolOutput[] =>
+    tools.filter(isRecord).map((tool) => ({
+        ...(tool as unknown as IToolOutput),
+        startedAt: toDate(tool.startedAt),
+        completedAt: toDate(tool.completedAt),
+        status: wasInterrupted && tool.status === 'running' ? 'failed' : tool.status,
+    })) as IToolOutput[]
+
+/**
+ * Revives the dates of stored thinking
+ */
+const reviveContentSegments = (segments: unknown[]): IContentSegment[] =>
+    segments.filter(isRecord).map((segment) => {
+        if (segment.type !== 'reasoning') return segment as unknown as IContentSegment
+        return {
+            ...(segment as unknown as IContentSegment),
+            startedAt: toDate(segment.startedAt),
+            completedAt: toDate(segment.completedAt),
+        }
+    })
+
+/**
+ * Turns stored message data back into an `IMessage`, reviving its dates.
+ * A response that was still streaming when it was saved is marked as
+ * interrupted, and its running tool calls as failed.
+ */
+const reviveMessage = (data: unknown): IMessage | null => {
+    if (!isRecord(data) || typeof data.id !== 'string' || typeof data.content !== 'string') {
+        return null
+    }
+    if (data.role !== 'user' && data.role !== 'assistant') return null
+
+    const message = { ...data, timestamp: toDate(data.timestamp) ?? new Date(0) } as IMessage
+    const wasInterrupted = message.status === 'streaming'
+
+    if (Array.isArray(data.toolOutputs)) {
+        message.toolOutputs = reviveToolOutputs(data.toolOutputs, wasInterrupted)
+    }
+    if (Array.isArray(data.contentSegments)) {
+        message.contentSegments = reviveContentSegments(data.contentSegments)
+    }
+    if (Array.isArray(data.versions)) {
+        message.versions = data.versions.filter(isRecord).map((version) => ({
+            ...(version as unknown as IMessageVersion),
+            timestamp: toDate(version.timestamp) ?? new Date(0),
+            toolOutputs: Array.isArray(version.toolOutputs)
+                ? reviveToolOutputs(version.toolOutputs, false)
+                : undefined,
+            contentSegments: Array.isArray(version.contentSegments)
+                ? reviveContentSegments(version.contentSegments)
+                : undefined,
+        }))
+    }
+    if (Array.isArray(data.branches)) {
+        message.branches = data.branches.filter(Array.isArray).map(reviveMessages)
+    }
+    if (wasInterrupted) {
+        message.status = 'error'
+        message.stopReason = 'error'
+        message.error = {
+            name: 'AbortError',
+            message: 'The response was interrupted before it finished.',
+        }
+    }
+    return message
+}
+
+/**
+ * Revives stored messages, skipping malformed ones. Messages of edited
+ * conversations keep their other branches, which are revived too.
+ */
+const reviveMessages = (data: unknown[]): IMessage[] =>
+    data.map(reviveMessage).filter((message): message is IMessage => message !== null)
+
+/**
+ * Converts messages into the JSON-safe record written by the built-in
+ * storages, keeping only the latest `maxMessages`. Whole exchanges are
+ * dropped, and never a message holding branches.
+ *
+ * @example
+ * ```ts
+ * localStorage.setItem('chat', JSON.stringify(toStoredConversation(messages)))
+ * ```
+ */
+export const toStoredConversation = (
+    messages: IMessage[],
+    options: SerializationOptions = {},
+): IStoredConversation => {
+    const { version = DEFAULT_STORAGE_VERSION, maxMessages = 0 } = options
+    const kept = keepLatestMessages(messages, maxMessages)
+    return {
+        version,
+        savedAt: new Date().toISOString(),
+        // A JSON round trip turns dates into ISO strings and drops undefined fields
+        messages: JSON.parse(JSON.stringify(kept)) as unknown[],
+    }
+}
+
+/**
+ * Restores messages from a stored record: migrates other schema versions
+ * (or drops them without `migrate`), revives `timestamp` and tool call dates
+ * into `Date` objects and skips malformed messages.
+ *
+ * @returns The messages, or `null` when the record can't be used
+ */
+export const fromStoredConversation = (
+    stored: unknown,
+    options: SerializationOptions = {},
+): IMessage[] | null => {
+    const { version = DEFAULT_STORAGE_VERSION, migrate } = options
+    if (!isRecord(stored) || !Array.isArray(stored.messages)) return null
+
+    let conversation: IStoredConversation | null = stored as unknown as IStoredConversation
+    if (conversation.version !== version) {
+        conversation = migrate ? migrate(conversation) : null
+    }
+    if (!conversation) return null
+
+    return reviveMessages(conversation.messages)
+}
+
+/**
+ * Restores the conversation list of `useConversations` from its JSON form,
+ * reviving `createdAt` and `updatedAt` and skipping malformed entries.
+ */
+export const fromStoredConversationList = (stored: unknown): IConversation[] | null => {
+    if (!Array.isArray(stored)) return null
+    return stored.filter(isRecord).flatMap((data) => {
+        if (typeof data.id !== 'string' || typeof data.title !== 'string') return []
+        const createdAt = toDate(data.createdAt) ?? new Date(0)
+        return [{
+            ...(data as unknown as IConversation),
+            createdAt,
+            updatedAt: toDate(data.updatedAt) ?? createdAt,
+        }]
+    })
+}
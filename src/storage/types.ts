@@ -0,0 +1,79 @@
+import type { IConversation, IMessage } from '../types'
+
+/**
+ * A conversation as written to storage: plain JSON, with dates as ISO strings
+ */
+export interface IStoredConversation {
+    /** Schema version the conversation was saved with */
+    version: number
+    /** When the conversation was saved (ISO string) */
+    savedAt: string
+    /** The saved messages, oldest first */
+    messages: unknown[]
+}
+
+/**
+ * Persists conversations for `useChatMessages({ storage })`.
+ *
+ * `load` resolves to the messages of a conversation (with `Date` fields
+ * revived), or `null` when nothing is stored. `save` may be called on every
+ * update while a response streams; implementations are expected to batch
+ * writes.
+ *
+ * @example
+ * ```ts
+ * const apiStorage: IChatStorage = {
+ *   load: async (id) => {
+ *     const res = await fetch(`/api/chats/${id}`)
+ *     return res.ok ? fromStoredConversation(await res.json()) : null
+ *   },
+ *   save: async (id, messages) => {
+ *     await fetch(`/api/chats/${id}`, {
+ *       method: 'PUT',
+ *       body: JSON.stringify(toStoredConversation(messages)),
+ *     })
+ *   },
+ *   delete: async (id) => {
+ *     await fetch(`/api/chats/${id}`, { method: 'DELETE' })
+ *   },
+ * }
+ * ```
+ */
+export interface IChatStorage {
+    load: (conversationId: string) => Promise<IMessage[] | null>
+    save: (conversationId: string, messages: IMessage[]) => Promise<void>
+    delete: (conversationId: string) => Promise<void>
+    /**
+     * Loads the conversation list of `useConversations`, or `null` when
+     * nothing is stored. Optional: without it the list isn't persisted.
+     */
+    loadConversations?: () => Promise<IConversation[] | null>
+    /** Saves the conversation list of `useConversations` */
+    saveConversations?: (conversations: IConversation[]) => Promise<void>
+}
+
+/**
+ * Options shared by the built-in storages
+ */
+export interface IChatStorageOptions {
+    /**
+     * Schema version written with every conversation (default: 1). Bump it
+     * when the shape of your stored messages changes; conversations saved
+     * with another version go through `migrate`.
+     */
+    version?: number
+    /**
+     * Upgrades a conversation saved with another `version` to the current
+     * one. Return `null` to drop it. Without `migrate`, conversations saved
+     * with another version are dropped.
+     */
+    migrate?: (stored: IStoredConversation) => IStoredConversation | null
+    /**
+     * Keep only the latest `maxMessages` messages of each conversation
+     * (default: all). Whole exchanges are dropped; messages from the first
+     * edited message on are kept with its branches, even beyond the limit.
+     */
+    maxMessages?: number
+    /** Wait this long (ms) after the last change before writing (default: 500) */
+    debounceMs?: number
+}
@@ -116,14 +116,20 @@ export const defaultTheme: Required<ChatTheme> = {
 
 /**
  * Merges a partial theme with the default theme
+ *
+ * @param theme - Partial theme whose defined colors take precedence
+ * @param base - Fully resolved theme to merge onto (defaults to `defaultTheme`)
  */
-export function mergeTheme(theme?: Partial<ChatTheme>): Required<ChatTheme> {
+export function mergeTheme(
+    theme?: Partial<ChatTheme>,
+    base: Required<ChatTheme> = defaultTheme,
+): Required<ChatTheme> {
     if (!theme || !theme.colors) {
-        return defaultTheme
+        return base
     }
 
     // Only merge defined color values to avoid overwriting with undefined
-    const mergedColors: Required<ChatTheme>['colors'] = { ...defaultTheme.colors }
+    const mergedColors: Required<ChatTheme>['colors'] = { ...base.colors }
 
     for (const key in theme.colors) {
         const value = theme.colors[key as keyof typeof theme.colors]
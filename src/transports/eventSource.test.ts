@@ -0,0 +1,166 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { eventSourceTransport } from './eventSource'
+import type { IEventSourceTransportOptions } from './eventSource'
+import type { IChatTransportRequest } from './types'
+import { defaultEventAdapter } from '../context/ChatConfigContext'
+
+/**
+ * Minimal `EventSource` stand-in that the test drives by hand
+ */
+class FakeEventSource extends EventTarget {
+    static latest: FakeEventSource
+    onerror: (() => void) | null = null
+    isClosed = false
+
+    constructor(readonly url: string) {
+        super()
+        FakeEventSource.latest = this
+    }
+
+    emit(data: string, type = 'message') {
+        this.dispatchEvent(new MessageEvent(type, { data, lastEventId: '' }))
+    }
+
+    fail() {
+        this.onerror?.()
+    }
+
+    close() {
+        this.isClosed = true
+    }
+}
+
+const send = (
+    options: Partial<IEventSourceTransportOptions> = {},
+    abortController = new AbortController(),
+) => {
+    const request = {
+        userInput: 'Hi',
+        modelName: 'model',
+        adapter: defaultEventAdapter,
+        onEvent: vi.fn(),
+        onComplete: vi.fn(),
+        onAbort: vi.fn(),
+        onError: vi.fn(),
+        abortSignal: abortController.signal,
+    } satisfies Partial<IChatTransportRequest>
+    const done = eventSourceTransport({ url: 'https://chat.test/stream', ...options }).send(
+        request as unknown as IChatTransportRequest,
+    )
+    return { request, done, source: FakeEventSource.latest, abortController }
+}
+
+describe('eventSourceTransport', () => {
+    beforeEach(() => {
+        vi.stubGlobal('EventSource', FakeEventSource)
+    })
+
+    afterEach(() => {
+        vi.unstubAllGlobals()
+    })
+
+    it.each([
+        ['a [DONE] payload', (source: FakeEventSource) => source.emit('[DONE]')],
+        ['a done event', (source: FakeEventSource) => source.emit('', 'done')],
+    ])('completes on %s', async (_, end) => {
+        const { request, done, source } = send()
+        source.emit('{"type":"llm_token","content":"Hello"}')
+        end(source)
+        await done
+
+        expect(request.onEvent.mock.calls[0][0]).toMatchObject({
+            type: 'llm_token',
+            content: 'Hello',
+        })
+        expect(request.onComplete).toHaveBeenCalledTimes(1)
+        expect(request.onError).not.toHaveBeenCalled()
+        expect(source.isClosed).toBe(true)
+    })
+
+    it('adapts the payload of a done event before completing', async () => {
+        const { request, done, source } = send()
+        source.emit('{"type":"llm_token","content":"Hello"}')
+        source.emit('{"finish_reason":"length"}', 'done')
+        await done
+
+        expect(request.onEvent.mock.calls[1][0]).toMatchObject({
+            type: 'done',
+            finish_reason: 'length',
+        })
+        expect(request.onComplete).toHaveBeenCalledTimes(1)
+        expect(request.onEvent.mock.invocationCallOrder[1]).toBeLessThan(
+            request.onComplete.mock.invocationCallOrder[0],
+        )
+    })
+
+    it('completes when isComplete matches', async () => {
+        const { request, done, source } = send({
+            isComplete: (message) => message.data.includes('"finished"'),
+        })
+        source.emit('{"status":"finished"}')
+        await done
+
+        expect(request.onComplete).toHaveBeenCalledTimes(1)
+    })
+
+    it('reports a failure before any message as a NetworkError', async () => {
+        const { request, done, source } = send()
+        source.fail()
+        await done
+
+        expect(request.onError.mock.calls[0][0].name).toBe('NetworkError')
+        expect(request.onComplete).not.toHaveBeenCalled()
+    })
+
+    it('reports a connection lost mid-response as a NetworkError', async () => {
+        const { request, done, source } = send()
+        source.emit('{"type":"llm_token","content":"Hel"}')
+        source.fail()
+        await done
+
+        expect(request.onError.mock.calls[0][0].name).toBe('NetworkError')
+        expect(request.onComplete).not.toHaveBeenCalled()
+        expect(source.isClosed).toBe(true)
+    })
+
+    it('treats a close after a message as the end with endOnClose', async () => {
+        const { request, done, source } = send({ endOnClose: true })
+        source.emit('{"type":"llm_token","content":"Hello"}')
+        source.fail()
+        await done
+
+        expect(request.onComplete).toHaveBeenCalledTimes(1)
+        expect(request.onError).not.toHaveBeenCalled()
+    })
+
+    it('still reports a failure before any message with endOnClose', async () => {
+        const { request, done, source } = send({ endOnClose: true })
+        source.fail()
+        await done
+
+        expect(request.onError.mock.calls[0][0].name).toBe('NetworkError')
+    })
+
+    it('reports an abort through onAbort', async () => {
+        const { request, done, source, abortController } = send()
+        source.emit('{"type":"llm_token","content":"Hel"}')
+        abortController.abort()
+        source.fail()
+        await done
+
+        expect(request.onAbort).toHaveBeenCalledTimes(1)
+        expect(request.onComplete).not.toHaveBeenCalled()
+        expect(request.onError).not.toHaveBeenCalled()
+        expect(source.isClosed).toBe(true)
+    })
+
+    it('reports an abort before connecting through onAbort', async () => {
+        const abortController = new AbortController()
+        abortController.abort()
+        const { request, done } = send({}, abortController)
+        await done
+
+        expect(request.onAbort).toHaveBeenCalledTimes(1)
+        expect(request.onComplete).not.toHaveBeenCalled()
+    })
+})
@@ -0,0 +1,157 @@
+import { parseSSEData, toStreamEvents } from '../utils/streaming'
+import type { ISSEMessage, ISSEParserOptions } from '../utils/streaming'
+import { NetworkError, ParseError } from '../utils/errors'
+import type { IChatTransport, IChatTransportRequest, ITransportBaseOptions } from './types'
+
+/**
+ * Options for eventSourceTransport
+ */
+export interface IEventSourceTransportOptions extends ITransportBaseOptions {
+    /**
+     * Endpoint URL. A string gets `message` and `model` query parameters
+     * appended; pass a function to build the URL yourself.
+     */
+    url: string | ((request: IChatTransportRequest) => string)
+    /** Send cookies with cross-origin requests */
+    withCredentials?: boolean
+    /** Named events to listen for in addition to `message` (e.g. `['token', 'tool_call']`) */
+    events?: string[]
+    /**
+     * Whether a message ends the response. A `[DONE]` payload or an event
+     * named `done` always does; the payload of a `done` event still goes
+     * through the adapter first.
+     */
+    isComplete?: (message: ISSEMessage) => boolean
+    /**
+     * Treat the server closing the stream after at least one message as the
+     * end of the response (default: false). `EventSource` cannot tell a
+     * closed stream from a dropped connection, so only enable this for
+     * servers that never send an explicit end.
+     */
+    endOnClose?: boolean
+    /** JSON parsing limits for event payloads */
+    parserOptions?: ISSEParserOptions
+}
+
+const buildDefaultUrl = (url: string, request: IChatTransportRequest): string => {
+    const target = new URL(url, globalThis.location?.href)
+    target.searchParams.set('message', request.userInput)
+    target.searchParams.set('model', request.modelName)
+    return target.toString()
+}
+
+/**
+ * Transport for GET endpoints consumed with the browser's `EventSource`.
+ *
+ * `EventSource` reconnects on its own whenever the server closes the
+ * connection, so the response has to end explicitly: with a `[DONE]`
+ * payload, a `done` event or `isComplete`. Losing the connection before
+ * that is reported as a `NetworkError`, unless `endOnClose` is set and
+ * at least one message arrived.
+ *
+ * @example
+ * ```tsx
+ * const transport = eventSourceTransport({
+ *   url: (request) => `/api/chat?q=${encodeURIComponent(request.userInput)}`,
+ *   events: ['token'],
+ * })
+ *
+ * const chat = useChatMessages({ transport })
+ * ```
+ */
+export const eventSourceTransport = (options: IEventSourceTransportOptions): IChatTransport => {
+    const {
+        url,
+        withCredentials = false,
+        events = [],
+        adapter: transportAdapter,
+        isComplete,
+        endOnClose = false,
+        parserOptions,
+    } = options
+
+    return {
+        send: (request) =>
+            new Promise<void>((resolve) => {
+                const { abortSignal, onEvent, onComplete, onAbort, onError } = request
+                const adapter = transportAdapter ?? request.adapter
+                if (abortSignal?.aborted) {
+                    onAbort()
+                    resolve()
+                    return
+                }
+
+                let settled = false
+                let receivedMessage = false
+                let source: EventSource
+
+                // Report the outcome once and stop EventSource from reconnecting
+                const settle = (outcome: Error | 'complete' | 'aborted' = 'complete') => {
+                    if (settled) return
+                    settled = true
+                    abortSignal?.removeEventListener('abort', handleAbort)
+                    source.close()
+                    if (outcome === 'complete') {
+                        onComplete()
+                    } else if (outcome === 'aborted') {
+                        onAbort()
+                    } else {
+                        onError(outcome)
+                    }
+                    resolve()
+                }
+
+                const handleAbort = () => settle('aborted')
+
+                try {
+                    source = new EventSource(
+                        typeof url === 'function' ? url(request) : buildDefaultUrl(url, request),
+                        { withCredentials },
+                    )
+                } catch (error) {
+                    onError(new NetworkError(error))
+                    resolve()
+                    return
+                }
+                abortSignal?.addEventListener('abort', handleAbort, { once: true })
+
+                const handleMessage = (messageEvent: MessageEvent<string>) => {
+                    receivedMessage = true
+                    const message: ISSEMessage = {
+                        event: messageEvent.type,
+                        data: messageEvent.data,
+                        id: messageEvent.lastEventId,
+                    }
+                    if (message.data.trim() === '[DONE]' || isComplete?.(message)) {
+                        settle()
+                        return
+                    }
+
+                    try {
+                        const data = parseSSEData(message.data, parserOptions)
+                        if (data !== null) toStreamEvents(adapter(data, message)).forEach(onEvent)
+                    } catch (error) {
+                        settle(new ParseError(error))
+                        return
+                    }
+                    // After its payload, which may carry the finish reason and usage
+                    if (message.event === 'done') settle()
+                }
+
+                source.addEventListener('message', handleMessage)
+                source.addEventListener('done', handleMessage)
+                events.forEach((eventName) => source.addEventListener(eventName, handleMessage))
+
+                // Fired when the connection fails or the server closes the stream
+                source.onerror = () => {
+                    if (endOnClose && receivedMessage) {
+                        settle()
+                    } else if (receivedMessage) {
+                        settle(new NetworkError(new Error('EventSource connection lost')))
+                    } else {
+                        settle(new NetworkError(new Error('EventSource connection failed')))
+                    }
+                }
+            }),
+    }
+}
@@ -0,0 +1,21 @@
+// ============================================================================
+// Pre-built Transports
+// ============================================================================
+
+// fetch + Server-Sent Events (used by streamConfig)
+export { sseTransport } from './sse'
+
+// WebSocket
+export { websocketTransport } from './websocket'
+
+// Browser EventSource (GET endpoints)
+export { eventSourceTransport } from './eventSource'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type { IChatTransport, IChatTransportRequest, ITransportBaseOptions } from './types'
+export type { ISSETransportOptions } from './sse'
+export type { IWebSocketTransportOptions } from './websocket'
+export type { IEventSourceTransportOptions } from './eventSource'
@@ -0,0 +1,128 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { sseTransport } from './sse'
+import type { ISSETransportOptions } from './sse'
+import type { IChatTransportRequest } from './types'
+import { defaultEventAdapter } from '../context/ChatConfigContext'
+
+/**
+ * Stubs `fetch` with one response and returns the mock
+ */
+const stubFetch = (response: (init: RequestInit) => Response) => {
+    const fetchMock = vi.fn(async (_url: string, init: RequestInit) => response(init))
+    vi.stubGlobal('fetch', fetchMock)
+    return fetchMock
+}
+
+const send = (
+    options: Partial<ISSETransportOptions> = {},
+    abortController = new AbortController(),
+) => {
+    const request = {
+        userInput: 'Hi',
+        modelName: 'model',
+        messages: [],
+        adapter: defaultEventAdapter,
+        onEvent: vi.fn(),
+        onComplete: vi.fn(),
+        onAbort: vi.fn(),
+        onError: vi.fn(),
+        onRetry: vi.fn(),
+        abortSignal: abortController.signal,
+    } satisfies Partial<IChatTransportRequest>
+    const done = sseTransport({ url: 'https://chat.test/stream', ...options }).send(
+        request as unknown as IChatTransportRequest,
+    )
+    return { request, done, abortController }
+}
+
+describe('sseTransport', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals()
+    })
+
+    it('posts the transformed body and streams the adapted events', async () => {
+        const fetchMock = stubFetch(
+            () =>
+                new Response(
+                    'data: {"type":"llm_token","content":"Hel"}\n\n' +
+                        'data: {"type":"llm_token","content":"lo"}\n\n' +
+                        'data: [DONE]\n\n',
+                ),
+        )
+        const { request, done } = send({
+            transformBody: (chatRequest) => ({ prompt: chatRequest.userInput }),
+        })
+        await done
+
+        const [url, init] = fetchMock.mock.calls[0]
+        expect(url).toBe('https://chat.test/stream')
+        expect(JSON.parse(init.body as string)).toEqual({ prompt: 'Hi' })
+        expect(request.onEvent.mock.calls.map(([event]) => event.content)).toEqual(['Hel', 'lo'])
+        expect(request.onComplete).toHaveBeenCalledTimes(1)
+        expect(request.onError).not.toHaveBeenCalled()
+    })
+
+    it('reports an error status as an HttpError', async () => {
+        stubFetch(() => new Response('Upstream failed', { status: 500 }))
+        const { request, done } = send()
+        await done
+
+        expect(request.onError.mock.calls[0][0]).toMatchObject({
+            name: 'HttpError',
+            status: 500,
+            body: 'Upstream failed',
+        })
+        expect(request.onComplete).not.toHaveBeenCalled()
+    })
+
+    it('reports a dropped connection as a NetworkError', async () => {
+        let isSent = false
+        stubFetch(
+            () =>
+                new Response(
+                    new ReadableStream<Uint8Array>({
+                        pull(controller) {
+                            if (isSent) {
+                                controller.error(new TypeError('connection reset'))
+                                return
+                            }
+                            controller.enqueue(
+                                new TextEncoder().encode('data: {"type":"llm_token"}\n\n'),
+                            )
+                            isSent = true
+                        },
+                    }),
+                ),
+        )
+        const { request, done } = send()
+        await done
+
+        expect(request.onEvent).toHaveBeenCalledTimes(1)
+        expect(request.onError.mock.calls[0][0].name).toBe('NetworkError')
+    })
+
+    it('reports an abort through onAbort', async () => {
+        // Like fetch, the body fails with the abort reason
+        stubFetch(
+            ({ signal }) =>
+                new Response(
+                    new ReadableStream<Uint8Array>({
+                        start(controller) {
+                            controller.enqueue(
+                                new TextEncoder().encode('data: {"type":"llm_token"}\n\n'),
+                            )
+                            signal?.addEventListener('abort', () => controller.error(signal.reason))
+                        },
+                    }),
+                ),
+        )
+        const { request, done, abortController } = send()
+        await vi.waitFor(() => expect(request.onEvent).toHaveBeenCalled())
+        abortController.abort()
+        await done
+
+        expect(request.onAbort).toHaveBeenCalledTimes(1)
+        expect(request.onComplete).not.toHaveBeenCalled()
+        expect(request.onError).not.toHaveBeenCalled()
+    })
+})
@@ -0,0 +1,50 @@
+import { streamSSE } from '../utils/streaming'
+import type { IStreamSSEOptions } from '../utils/streaming'
+import type { IChatTransport, IChatTransportRequest, ITransportBaseOptions } from './types'
+
+/**
+ * Options for sseTransport
+ */
+export interface ISSETransportOptions
+    extends Omit<
+            IStreamSSEOptions,
+            'onEvent' | 'onComplete' | 'onAbort' | 'onError' | 'onRetry' | 'signal' | 'adapter'
+        >,
+        ITransportBaseOptions {
+    /** Builds the request body from the chat request (takes precedence over `body`) */
+    transformBody?: (request: IChatTransportRequest) => Record<string, unknown>
+}
+
+/**
+ * Transport that POSTs each request with `fetch` and reads the Server-Sent
+ * Events response through `streamSSE`. This is what `streamConfig` uses.
+ *
+ * @example
+ * ```tsx
+ * const transport = sseTransport({
+ *   url: '/api/chat',
+ *   transformBody: (request) => ({ message: request.userInput, model: request.modelName }),
+ *   retry: true,
+ * })
+ *
+ * const chat = useChatMessages({ transport })
+ * ```
+ */
+export const sseTransport = (options: ISSETransportOptions): IChatTransport => {
+    const { transformBody, adapter, body, ...streamOptions } = options
+
+    return {
+        send: (request) =>
+            streamSSE({
+                ...streamOptions,
+                body: transformBody ? transformBody(request) : body,
+                adapter: adapter ?? request.adapter,
+                onEvent: request.onEvent,
+                onComplete: request.onComplete,
+                onAbort: request.onAbort,
+                onError: request.onError,
+                onRetry: request.onRetry,
+                signal: request.abortSignal,
+            }),
+    }
+}
@@ -0,0 +1,44 @@
+import type { EventAdapter } from '../adapters/types'
+import type { ISendMessageParams } from '../hooks/useChatMessages'
+
+/**
+ * A single request handed to a transport by `useChatMessages`
+ */
+export interface IChatTransportRequest extends ISendMessageParams {
+    /**
+     * Adapter resolved by the hook (the `ChatConfigProvider` `eventAdapter`).
+     * Transports configured with their own `adapter` use that instead.
+     */
+    adapter: EventAdapter
+}
+
+/**
+ * Moves one chat request to the backend and streams the response back.
+ *
+ * `send` reports every adapted event through `request.onEvent` and settles
+ * the request with exactly one call to `request.onComplete`,
+ * `request.onAbort` or `request.onError`. Aborting `request.abortSignal`
+ * ends the stream through `onAbort`.
+ *
+ * @example
+ * ```ts
+ * const pollingTransport: IChatTransport = {
+ *   send: async (request) => {
+ *     const { answer } = await api.ask(request.userInput)
+ *     request.onEvent({ type: 'llm_token', content: answer })
+ *     request.onComplete()
+ *   },
+ * }
+ * ```
+ */
+export interface IChatTransport {
+    send: (request: IChatTransportRequest) => Promise<void>
+}
+
+/**
+ * Options shared by the built-in transports
+ */
+export interface ITransportBaseOptions {
+    /** Event adapter for this transport (defaults to the request's adapter) */
+    adapter?: EventAdapter
+}
@@ -0,0 +1,154 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { websocketTransport } from './websocket'
+import type { IWebSocketTransportOptions } from './websocket'
+import type { IChatTransportRequest } from './types'
+import { defaultEventAdapter } from '../context/ChatConfigContext'
+
+/**
+ * Minimal `WebSocket` stand-in that the test drives by hand
+ */
+class FakeWebSocket {
+    static readonly CLOSING = 2
+    static latest: FakeWebSocket
+    readyState = 0
+    binaryType = 'blob'
+    sent: string[] = []
+    closeCode: number | undefined
+    onopen: (() => void) | null = null
+    onmessage: ((event: { data: string | ArrayBuffer }) => void) | null = null
+    onerror: (() => void) | null = null
+    onclose: ((event: { code: number; reason: string }) => void) | null = null
+
+    constructor(
+        readonly url: string,
+        readonly protocols?: string | string[],
+    ) {
+        FakeWebSocket.latest = this
+    }
+
+    open() {
+        this.readyState = 1
+        this.onopen?.()
+    }
+
+    receive(data: string | ArrayBuffer) {
+        this.onmessage?.({ data })
+    }
+
+    drop(code: number, reason = '') {
+        this.readyState = 3
+        this.onclose?.({ code, reason })
+    }
+
+    send(data: string) {
+        this.sent.push(data)
+    }
+
+    close(code?: number) {
+        this.readyState = 2
+        this.closeCode = code
+    }
+}
+
+const send = (
+    options: Partial<IWebSocketTransportOptions> = {},
+    abortController = new AbortController(),
+) => {
+    const request = {
+        userInput: 'Hi',
+        modelName: 'model',
+        messages: [],
+        adapter: defaultEventAdapter,
+        onEvent: vi.fn(),
+        onComplete: vi.fn(),
+        onAbort: vi.fn(),
+        onError: vi.fn(),
+        abortSignal: abortController.signal,
+    } satisfies Partial<IChatTransportRequest>
+    const done = websocketTransport({ url: 'wss://chat.test/stream', ...options }).send(
+        request as unknown as IChatTransportRequest,
+    )
+    return { request, done, socket: FakeWebSocket.latest, abortController }
+}
+
+describe('websocketTransport', () => {
+    beforeEach(() => {
+        vi.stubGlobal('WebSocket', FakeWebSocket)
+    })
+
+    afterEach(() => {
+        vi.unstubAllGlobals()
+    })
+
+    it('sends the request once open and completes on a normal close', async () => {
+        const { request, done, socket } = send()
+        socket.open()
+        socket.receive('{"type":"llm_token","content":"Hel"}')
+        socket.receive(new TextEncoder().encode('{"type":"llm_token","content":"lo"}').buffer)
+        socket.drop(1000)
+        await done
+
+        expect(JSON.parse(socket.sent[0])).toMatchObject({ message: 'Hi', model: 'model' })
+        expect(request.onEvent.mock.calls.map(([event]) => event.content)).toEqual(['Hel', 'lo'])
+        expect(request.onComplete).toHaveBeenCalledTimes(1)
+        expect(request.onError).not.toHaveBeenCalled()
+    })
+
+    it('completes on a [DONE] frame and closes the socket', async () => {
+        const { request, done, socket } = send()
+        socket.open()
+        socket.receive('[DONE]')
+        await done
+
+        expect(request.onComplete).toHaveBeenCalledTimes(1)
+        expect(socket.closeCode).toBe(1000)
+    })
+
+    it('completes when isComplete matches', async () => {
+        const { request, done, socket } = send({
+            isComplete: (data) => (data as { type?: string }).type === 'end',
+        })
+        socket.open()
+        socket.receive('{"type":"end"}')
+        await done
+
+        expect(request.onComplete).toHaveBeenCalledTimes(1)
+        expect(request.onEvent).not.toHaveBeenCalled()
+    })
+
+    it('reports an abnormal close as a NetworkError', async () => {
+        const { request, done, socket } = send()
+        socket.open()
+        socket.receive('{"type":"llm_token","content":"Hel"}')
+        socket.drop(1006, 'going away')
+        await done
+
+        expect(request.onError.mock.calls[0][0]).toMatchObject({
+            name: 'NetworkError',
+            message: 'WebSocket closed with code 1006: going away',
+        })
+        expect(request.onComplete).not.toHaveBeenCalled()
+    })
+
+    it('reports a socket error as a NetworkError once', async () => {
+        const { request, done, socket } = send()
+        socket.onerror?.()
+        socket.drop(1006)
+        await done
+
+        expect(request.onError).toHaveBeenCalledTimes(1)
+        expect(request.onError.mock.calls[0][0].name).toBe('NetworkError')
+    })
+
+    it('reports an abort through onAbort and closes the socket', async () => {
+        const { request, done, socket, abortController } = send()
+        socket.open()
+        abortController.abort()
+        socket.drop(1000)
+        await done
+
+        expect(request.onAbort).toHaveBeenCalledTimes(1)
+        expect(request.onComplete).not.toHaveBeenCalled()
+        expect(socket.closeCode).toBe(1000)
+    })
+})
@@ -0,0 +1,158 @@
+import { parseSSEData, toStreamEvents } from '../utils/streaming'
+import type { ISSEParserOptions } from '../utils/streaming'
+import { NetworkError, ParseError } from '../utils/errors'
+import type { IChatTransport, IChatTransportRequest, ITransportBaseOptions } from './types'
+
+/**
+ * Options for websocketTransport
+ */
+export interface IWebSocketTransportOptions extends ITransportBaseOptions {
+    /** Socket URL (`ws://` or `wss://`), or a function building it per request */
+    url: string | ((request: IChatTransportRequest) => string)
+    /** Subprotocols passed to the WebSocket constructor */
+    protocols?: string | string[]
+    /**
+     * Builds the message sent once the socket opens. Strings are sent as is,
+     * anything else is JSON stringified.
+     * Defaults to `{ message, model, pdfUuids, history, continueFrom }`.
+     */
+    buildMessage?: (request: IChatTransportRequest) => unknown
+    /**
+     * Whether a parsed frame ends the response. A `[DONE]` frame or a normal
+     * close (code 1000) always does.
+     */
+    isComplete?: (data: unknown) => boolean
+    /** JSON parsing limits for incoming frames */
+    parserOptions?: ISSEParserOptions
+}
+
+const defaultBuildMessage = (request: IChatTransportRequest) => ({
+    message: request.userInput,
+    model: request.modelName,
+    pdfUuids: request.pdfUuids,
+    history: request.messages.map((m) => ({ role: m.role, content: m.content })),
+    continueFrom: request.continueFrom,
+})
+
+/**
+ * Transport that opens a WebSocket per request, sends the request as one
+ * message and treats every incoming frame as a raw event for the adapter.
+ *
+ * Frames are parsed like SSE `data:` payloads (JSON with the usual size and
+ * depth limits, otherwise plain text), so the pre-built adapters work
+ * unchanged. The socket is closed when the response completes or the
+ * request is aborted.
+ *
+ * @example
+ * ```tsx
+ * const transport = websocketTransport({
+ *   url: 'wss://chat.example.com/stream',
+ *   buildMessage: (request) => ({ prompt: request.userInput }),
+ *   isComplete: (data) => (data as { type?: string }).type === 'end',
+ * })
+ *
+ * const chat = useChatMessages({ transport })
+ * ```
+ */
+export const websocketTransport = (options: IWebSocketTransportOptions): IChatTransport => {
+    const {
+        url,
+        protocols,
+        adapter: transportAdapter,
+        buildMessage = defaultBuildMessage,
+        isComplete,
+        parserOptions,
+    } = options
+
+    return {
+        send: (request) =>
+            new Promise<void>((resolve) => {
+                const { abortSignal, onEvent, onComplete, onAbort, onError } = request
+                const adapter = transportAdapter ?? request.adapter
+                if (abortSignal?.aborted) {
+                    onAbort()
+                    resolve()
+                    return
+                }
+
+                let settled = false
+                let socket: WebSocket
+
+                // Report the outcome once and release the socket
+                const settle = (outcome: Error | 'complete' | 'aborted' = 'complete') => {
+                    if (settled) return
+                    settled = true
+                    abortSignal?.removeEventListener('abort', handleAbort)
+                    if (socket.readyState < WebSocket.CLOSING) socket.close(1000)
+                    if (outcome === 'complete') {
+                        onComplete()
+                    } else if (outcome === 'aborted') {
+                        onAbort()
+                    } else {
+                        onError(outcome)
+                    }
+                    resolve()
+                }
+
+                const handleAbort = () => settle('aborted')
+
+                try {
+                    socket = new WebSocket(typeof url === 'function' ? url(request) : url, protocols)
+                } catch (error) {
+                    onError(new NetworkError(error))
+                    resolve()
+                    return
+                }
+                socket.binaryType = 'arraybuffer'
+                abortSignal?.addEventListener('abort', handleAbort, { once: true })
+
+                socket.onopen = () => {
+                    const message = buildMessage(request)
+                    socket.send(typeof message === 'string' ? message : JSON.stringify(message))
+                }
+
+                socket.onmessage = (messageEvent: MessageEvent) => {
+                    const frame =
+                        typeof messageEvent.data === 'string'
+                            ? messageEvent.data
+                            : new TextDecoder().decode(messageEvent.data as ArrayBuffer)
+                    if (frame.trim() === '[DONE]') {
+                        settle()
+                        return
+                    }
+
+                    try {
+                        const data = parseSSEData(frame, parserOptions)
+                        if (data === null) return
+                        if (isComplete?.(data)) {
+                            settle()
+                            return
+                        }
+                        toStreamEvents(adapter(data)).forEach(onEvent)
+                    } catch (error) {
+                        settle(new ParseError(error))
+                    }
+                }
+
+                // Browsers expose no details on socket errors; the close event follows
+                socket.onerror = () => {
+                    settle(new NetworkError(new Error('WebSocket connection failed')))
+                }
+
+                socket.onclose = (closeEvent: CloseEvent) => {
+                    if (closeEvent.code === 1000) {
+                        settle()
+                    } else {
+                        settle(
+                            new NetworkError(
+                                new Error(
+                                    `WebSocket closed with code ${closeEvent.code}` +
+                                        (closeEvent.reason ? `: ${closeEvent.reason}` : ''),
+                                ),
+                            ),
+                        )
+                    }
+                }
+            }),
+    }
+}
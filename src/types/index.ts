@@ -5,7 +5,7 @@ export type MessageRole = 'user' | 'assistant'
 export type { IChartData, IChartRendererProps, IChartSeriesData } from './chart'
 export { parseChartData } from './chart'
 
-export type ContentSegmentType = 'text' | 'tool'
+export type ContentSegmentType = 'text' | 'tool' | 'reasoning'
 
 export interface ITextSegment {
     type: 'text'
@@ -17,13 +17,44 @@ export interface IToolSegment {
     toolIndex: number
 }
 
-export type IContentSegment = ITextSegment | IToolSegment
+/**
+ * What the model thought before answering, e.g. extended thinking or a
+ * reasoning summary
+ */
+export interface IReasoningSegment {
+    type: 'reasoning'
+    content: string
+    /** When the model started thinking */
+    startedAt?: Date
+    /** When the model stopped thinking, i.e. the answer or a tool call started */
+    completedAt?: Date
+}
+
+export type IContentSegment = ITextSegment | IToolSegment | IReasoningSegment
 
 export interface IPdfFile {
     uuid: string
     name: string
 }
 
+/**
+ * A source the answer cites with `[id]` markers in its text
+ */
+export interface ICitation {
+    /** Id used by the markers, e.g. `'1'` for `[1]` */
+    id: string
+    title?: string
+    url?: string
+    /** Passage of the source the answer relies on */
+    snippet?: string
+    /** Uuid of the cited document, e.g. an uploaded PDF */
+    documentUuid?: string
+    /** Cited page of the document */
+    page?: number
+    /** The uploaded PDF `documentUuid` refers to, when it is attached to the conversation */
+    file?: IPdfFile
+}
+
 export interface IMessage {
     id: string
     role: MessageRole
@@ -32,14 +63,136 @@ export interface IMessage {
     toolOutputs?: IToolOutput[]
     contentSegments?: IContentSegment[] // Ordered segments preserving streaming order
     timestamp: Date
+    /** Model that produced an assistant message */
+    model?: string
+    /** Lifecycle status of an assistant message, set while streaming */
+    status?: MessageStatus
+    /** Why the response failed, when `status` is `'error'` */
+    error?: IMessageError
+    /** Why the response ended, once it has */
+    stopReason?: StopReason
+    /** Safety categories that blocked the answer, when `stopReason` is `'content_filter'` */
+    blockedCategories?: string[]
+    /** Tokens the answer used, as reported by the backend */
+    usage?: ITokenUsage
+    /** Sources the answer cites */
+    citations?: ICitation[]
+    /**
+     * All answers of a regenerated assistant message, oldest first. The
+     * message's own fields hold the answer shown.
+     */
+    versions?: IMessageVersion[]
+    /** Index in `versions` of the answer shown */
+    versionIndex?: number
+    /**
+     * Branches of the conversation from an edited user message on, oldest
+     * first: each holds a version of the message and the messages after it.
+     * The branch shown is this message and the rest of the list.
+     */
+    branches?: IMessage[][]
+    /** Index in `branches` of the branch shown */
+    branchIndex?: number
+}
+
+/**
+ * One answer of a regenerated assistant message
+ */
+export interface IMessageVersion {
+    content: string
+    contentSegments?: IContentSegment[]
+    toolOutputs?: IToolOutput[]
+    timestamp: Date
+    model?: string
+    status?: MessageStatus
+    error?: IMessageError
+    stopReason?: StopReason
+    blockedCategories?: string[]
+    usage?: ITokenUsage
+    citations?: ICitation[]
 }
 
+/**
+ * A conversation in the list managed by `useConversations`. Its messages are
+ * stored separately, under the conversation's `id`.
+ */
+export interface IConversation {
+    id: string
+    title: string
+    createdAt: Date
+    /** When the last message was added */
+    updatedAt: Date
+    /** Model of the latest assistant message */
+    model?: string
+}
+
+/**
+ * Lifecycle status of a streamed assistant message
+ */
+export type MessageStatus = 'streaming' | 'complete' | 'error'
+
+/**
+ * Why a streamed assistant message ended:
+ * - `'completed'`: the answer is complete
+ * - `'user_stopped'`: the user stopped it; the partial answer is kept
+ * - `'length'`: the backend stopped at its token limit
+ * - `'content_filter'`: the backend withheld the rest of the answer
+ * - `'error'`: the stream failed
+ */
+export type StopReason = 'completed' | 'user_stopped' | 'length' | 'content_filter' | 'error'
+
+/**
+ * Tokens used by one answer
+ */
+export interface ITokenUsage {
+    /** Prompt tokens, including the conversation history sent */
+    inputTokens: number
+    /** Generated tokens */
+    outputTokens: number
+}
+
+/**
+ * Why the model stopped generating, normalized across providers and
+ * reported with the `done` stream event:
+ * - `'stop'`: the answer is complete
+ * - `'length'`: the token limit was reached
+ * - `'content_filter'`: safety filters blocked the answer
+ * - `'tool_calls'`: the model stopped to call tools
+ * - `'other'`: any other reason
+ */
+export type FinishReason = 'stop' | 'length' | 'content_filter' | 'tool_calls' | 'other'
+
+/**
+ * Serializable summary of the error that interrupted an assistant message
+ */
+export interface IMessageError {
+    /** Error class name, e.g. `'RateLimitError'` or `'NetworkError'` */
+    name: string
+    message: string
+    /** HTTP status code for HTTP errors */
+    status?: number
+}
+
+/**
+ * Lifecycle status of a tool call
+ */
+export type ToolCallStatus = 'running' | 'done' | 'failed'
+
 export interface IToolOutput {
+    /** Correlates the tool call's stream events (`tool_call_id`) */
+    toolCallId?: string
     toolName: string
     friendlyName: string
     output: string
     visible: boolean
     title?: string
+    /** Arguments the tool was called with (usually a JSON string) */
+    input?: string
+    /** Lifecycle status, set while streaming */
+    status?: ToolCallStatus
+    /** When the tool call started */
+    startedAt?: Date
+    /** When the tool call finished or failed */
+    completedAt?: Date
 }
 
 // Theme Types
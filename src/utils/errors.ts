@@ -0,0 +1,105 @@
+/**
+ * Base class for all streaming failures reported by the chat package
+ */
+export class ChatStreamError extends Error {
+    constructor(message: string, options?: { cause?: unknown }) {
+        super(message, options)
+        this.name = 'ChatStreamError'
+    }
+}
+
+/**
+ * The server answered with a non-2xx status
+ */
+export class HttpError extends ChatStreamError {
+    /** HTTP status code */
+    readonly status: number
+    /** Response body text */
+    readonly body: string
+    /** Delay requested by the `Retry-After` header in ms, if sent (e.g. with 429 or 503) */
+    readonly retryAfterMs?: number
+
+    constructor(status: number, body: string, retryAfterMs?: number) {
+        super(`HTTP ${status}: ${body}`)
+        this.name = 'HttpError'
+        this.status = status
+        this.body = body
+        this.retryAfterMs = retryAfterMs
+    }
+}
+
+/**
+ * The server rejected the request with HTTP 429
+ */
+export class RateLimitError extends HttpError {
+    constructor(body: string, retryAfterMs?: number) {
+        super(429, body, retryAfterMs)
+        this.name = 'RateLimitError'
+    }
+}
+
+/**
+ * The connection could not be established or dropped mid-stream
+ */
+export class NetworkError extends ChatStreamError {
+    constructor(cause: unknown) {
+        super(cause instanceof Error ? cause.message : String(cause), { cause })
+        this.name = 'NetworkError'
+    }
+}
+
+/**
+ * The request was cancelled through its AbortSignal
+ */
+export class AbortError extends ChatStreamError {
+    constructor(message = 'The request was aborted') {
+        super(message)
+        this.name = 'AbortError'
+    }
+}
+
+/**
+ * A streamed payload could not be parsed or transformed by the adapter
+ */
+export class ParseError extends ChatStreamError {
+    constructor(cause: unknown) {
+        super(
+            `Failed to process stream event: ${cause instanceof Error ? cause.message : String(cause)}`,
+            { cause },
+        )
+        this.name = 'ParseError'
+    }
+}
+
+/**
+ * The AI provider reported an error through an `error` stream event
+ */
+export class ProviderError extends ChatStreamError {
+    constructor(message = 'The provider reported an error') {
+        super(message)
+        this.name = 'ProviderError'
+    }
+}
+
+/**
+ * Whether an error represents a cancelled request (ours or the platform's DOMException)
+ */
+export const isAbortError = (error: unknown): boolean =>
+    error instanceof Error && error.name === 'AbortError'
+
+/**
+ * Converts anything thrown or reported during streaming into a ChatStreamError
+ *
+ * @example
+ * ```ts
+ * onError: (error) => setError(toChatStreamError(error))
+ * ```
+ */
+export const toChatStreamError = (error: unknown): ChatStreamError => {
+    if (error instanceof ChatStreamError) return error
+    if (isAbortError(error)) return new AbortError()
+    // fetch reports network failures as TypeError
+    if (error instanceof TypeError) return new NetworkError(error)
+    if (error instanceof Error) return new ChatStreamError(error.message, { cause: error })
+    return new ChatStreamError(String(error))
+}
@@ -2,30 +2,52 @@
 // Streaming Utilities
 // ============================================================================
 
-export { streamSSE, parseSSELine, createSSEParser } from "./streaming";
+export { streamSSE, parseSSELine, createSSEParser, toStreamEvents } from './streaming'
 
 // ============================================================================
-// Security Utilities
+// Error Types
 // ============================================================================
 
 export {
-  safeJsonParse,
-  DEFAULT_MAX_JSON_SIZE,
-  DEFAULT_MAX_JSON_DEPTH,
-} from "./streaming";
+    ChatStreamError,
+    HttpError,
+    RateLimitError,
+    NetworkError,
+    AbortError,
+    ParseError,
+    ProviderError,
+    isAbortError,
+    toChatStreamError,
+} from './errors'
+
+// ============================================================================
+// Security Utilities
+// ============================================================================
+
+export { safeJsonParse, DEFAULT_MAX_JSON_SIZE, DEFAULT_MAX_JSON_DEPTH } from './streaming'
 
 // ============================================================================
 // Provider Helpers
 // ============================================================================
 
-export {
-  openAIStreamConfig,
-  anthropicStreamConfig,
-  geminiStreamConfig,
-} from "./providerHelpers";
+export { openAIStreamConfig, anthropicStreamConfig, geminiStreamConfig } from './providerHelpers'
+
+// ============================================================================
+// Token Usage
+// ============================================================================
+
+export { getConversationUsage, getUsageCost } from './usage'
 
 // ============================================================================
 // Types
 // ============================================================================
 
-export type { ISSEParserOptions, IStreamSSEOptions } from "./streaming";
+export type { IConversationUsage, IModelUsage } from './usage'
+
+export type {
+    ISSEParserOptions,
+    ISSEMessage,
+    IStreamSSEOptions,
+    IStreamRetryOptions,
+    IStreamRetryInfo,
+} from './streaming'
@@ -0,0 +1,85 @@
+import type { IMessage } from '../types'
+
+/**
+ * A message as kept inside a branch: the branches live on the message shown
+ */
+const withoutBranches = (message: IMessage): IMessage =>
+    message.branches ? { ...message, branches: undefined, branchIndex: undefined } : message
+
+/**
+ * All branches at `messages[index]`, with the one shown written into its
+ * slot: the list itself is the source of truth for the branch shown.
+ */
+export const getBranches = (messages: IMessage[], index: number): IMessage[][] => {
+    const head = messages[index]
+    const branches = [...(head.branches ?? [])]
+    branches[head.branchIndex ?? 0] = [withoutBranches(head), ...messages.slice(index + 1)]
+    return branches
+}
+
+/**
+ * Shows another branch at `messages[index]`: the message and everything
+ * after it are replaced by the branch.
+ */
+export const showBranch = (
+    messages: IMessage[],
+    index: number,
+    branchIndex: number,
+): IMessage[] => {
+    const head = messages[index]
+    if (!head || branchIndex === (head.branchIndex ?? 0)) return messages
+    const branches = getBranches(messages, index)
+    const branch = branches[branchIndex]
+    if (!branch) return messages
+    const [branchHead, ...rest] = branch
+    return [...messages.slice(0, index), { ...branchHead, branches, branchIndex }, ...rest]
+}
+
+/**
+ * Starts a new branch at `messages[index]` with `message`, e.g. an edited
+ * user message. The current branch is kept and the new one is shown.
+ */
+export const addBranch = (messages: IMessage[], index: number, message: IMessage): IMessage[] => {
+    const branches = getBranches(messages, index)
+    return [
+        ...messages.slice(0, index),
+        { ...message, branches: [...branches, [message]], branchIndex: branches.length },
+    ]
+}
+
+/**
+ * The conversation as sent to the backend: the messages shown, without the
+ * branches and answer versions they keep.
+ */
+export const toActivePath = (messages: IMessage[]): IMessage[] =>
+    messages.map((message) =>
+        message.branches || message.versions
+            ? {
+                ...message,
+                branches: undefined,
+                branchIndex: undefined,
+                versions: undefined,
+                versionIndex: undefined,
+            }
+            : message,
+    )
+
+/**
+ * The latest `maxMessages` messages (all of them for 0), dropping whole
+ * exchanges from the start. A message holding branches is never dropped,
+ * since the messages after it belong to its branch: the conversation keeps
+ * more than `maxMessages` instead.
+ */
+export const keepLatestMessages = (messages: IMessage[], maxMessages: number): IMessage[] => {
+    if (maxMessages <= 0 || messages.length <= maxMessages) return messages
+
+    let start = messages.length - maxMessages
+    // Start at a question rather than at the answer to a dropped one
+    const exchangeStart = messages.findIndex(
+        (message, index) => index >= start && message.role === 'user',
+    )
+    if (exchangeStart >= 0) start = exchangeStart
+    const firstBranchPoint = messages.findIndex((message) => message.branches)
+    if (firstBranchPoint >= 0) start = Math.min(start, firstBranchPoint)
+    return messages.slice(start)
+}
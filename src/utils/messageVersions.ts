@@ -0,0 +1,74 @@
+import type { IMessage, IMessageVersion } from '../types'
+
+/**
+ * The answer a message shows, as a version
+ */
+export const toMessageVersion = (message: IMessage): IMessageVersion => ({
+    content: message.content,
+    contentSegments: message.contentSegments,
+    toolOutputs: message.toolOutputs,
+    timestamp: message.timestamp,
+    model: message.model,
+    status: message.status,
+    error: message.error,
+    stopReason: message.stopReason,
+    blockedCategories: message.blockedCategories,
+    usage: message.usage,
+    citations: message.citations,
+})
+
+/**
+ * All answers of a message, with the one it shows written into its slot:
+ * the message's own fields are the source of truth for the shown answer.
+ */
+export const getMessageVersions = (message: IMessage): IMessageVersion[] => {
+    const versions = [...(message.versions ?? [])]
+    versions[message.versionIndex ?? 0] = toMessageVersion(message)
+    return versions
+}
+
+/**
+ * A message showing `versions[index]`
+ */
+const withVersion = (message: IMessage, versions: IMessageVersion[], index: number): IMessage => {
+    const version = versions[index]
+    return {
+        ...message,
+        content: version.content,
+        contentSegments: version.contentSegments,
+        toolOutputs: version.toolOutputs,
+        timestamp: version.timestamp,
+        model: version.model,
+        status: version.status,
+        error: version.error,
+        stopReason: version.stopReason,
+        blockedCategories: version.blockedCategories,
+        usage: version.usage,
+        citations: version.citations,
+        // A single answer needs no versions
+        versions: versions.length > 1 ? versions : undefined,
+        versionIndex: versions.length > 1 ? index : undefined,
+    }
+}
+
+/**
+ * Shows another answer of a regenerated message
+ */
+export const showMessageVersion = (message: IMessage, index: number): IMessage => {
+    const versions = getMessageVersions(message)
+    if (!versions[index] || index === (message.versionIndex ?? 0)) return message
+    return withVersion(message, versions, index)
+}
+
+/**
+ * Drops the answer a message shows and shows the one before it instead,
+ * e.g. when a regeneration was stopped before it produced anything.
+ *
+ * @returns The message, or `null` when it has no other answer
+ */
+export const removeShownVersion = (message: IMessage): IMessage | null => {
+    const index = message.versionIndex ?? 0
+    const versions = (message.versions ?? []).filter((_, i) => i !== index)
+    if (versions.length === 0) return null
+    return withVersion(message, versions, Math.max(0, index - 1))
+}
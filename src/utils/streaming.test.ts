@@ -0,0 +1,421 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { createSSEParser, streamSSE } from './streaming'
+import type { ISSEMessage, IStreamRetryInfo, IStreamRetryOptions } from './streaming'
+import { HttpError, RateLimitError } from './errors'
+
+/**
+ * Feeds the chunks to a fresh parser and returns the messages it dispatched
+ */
+const parse = (
+    chunks: Array<string | Uint8Array>,
+    options: { flush?: boolean; onRetry?: (retryMs: number) => void } = {},
+) => {
+    const messages: ISSEMessage[] = []
+    const parser = createSSEParser({
+        onMessage: (message) => messages.push(message),
+        onRetry: options.onRetry,
+    })
+    chunks.forEach((chunk) => parser.feed(chunk))
+    if (options.flush ?? true) parser.flush()
+    return { messages, parser }
+}
+
+/**
+ * Splits a string into one-character chunks
+ */
+const perChar = (text: string): string[] => text.split('')
+
+describe('createSSEParser', () => {
+    describe('line endings', () => {
+        it.each([
+            ['LF', '\n'],
+            ['CRLF', '\r\n'],
+            ['CR', '\r'],
+        ])('splits events on %s', (_, eol) => {
+            // The closing comment ends a trailing CR, which may be half a CRLF
+            const stream = `data: one${eol}${eol}data: two${eol}${eol}: end`
+            const { messages } = parse([stream], { flush: false })
+
+            expect(messages.map((message) => message.data)).toEqual(['one', 'two'])
+        })
+
+        it.each([
+            ['LF', '\n'],
+            ['CRLF', '\r\n'],
+            ['CR', '\r'],
+        ])('splits events on %s when every character is its own chunk', (_, eol) => {
+            const stream = `data: one${eol}${eol}data: two${eol}${eol}: end`
+            const { messages } = parse(perChar(stream), { flush: false })
+
+            expect(messages.map((message) => message.data)).toEqual(['one', 'two'])
+        })
+
+        it('treats a CRLF split between chunks as one line ending', () => {
+            const { messages } = parse(['data: one\r', '\ndata: two\r', '\n\r', '\n'], {
+                flush: false,
+            })
+
+            expect(messages).toHaveLength(1)
+            expect(messages[0].data).toBe('one\ntwo')
+        })
+
+        it('accepts mixed line endings in one stream', () => {
+            const { messages } = parse(['data: a\r\ndata: b\rdata: c\n\r\n'], { flush: false })
+
+            expect(messages[0].data).toBe('a\nb\nc')
+        })
+
+        it('waits for the next chunk before ending a line on a trailing CR', () => {
+            const { messages } = parse(['data: one\r\r'], { flush: false })
+
+            expect(messages).toHaveLength(0)
+        })
+    })
+
+    describe('data field', () => {
+        it('joins multi-line data with newlines', () => {
+            const { messages } = parse(['data: first\ndata: second\ndata: third\n\n'])
+
+            expect(messages).toHaveLength(1)
+            expect(messages[0].data).toBe('first\nsecond\nthird')
+        })
+
+        it('keeps empty data lines', () => {
+            const { messages } = parse(['data: a\ndata\ndata:\ndata: b\n\n'])
+
+            expect(messages[0].data).toBe('a\n\n\nb')
+        })
+
+        it('strips only one leading space from the value', () => {
+            const { messages } = parse(['data:no space\n\ndata:  two spaces\n\n'])
+
+            expect(messages.map((message) => message.data)).toEqual(['no space', ' two spaces'])
+        })
+
+        it('discards events without data', () => {
+            const { messages } = parse(['event: ping\n\nid: 1\n\n\n\ndata: real\n\n'])
+
+            expect(messages).toHaveLength(1)
+            expect(messages[0]).toEqual({ event: 'message', data: 'real', id: '1' })
+        })
+
+        it('passes parsed payloads to onData, skipping [DONE]', () => {
+            const onData = vi.fn()
+            const parser = createSSEParser({ onData })
+            parser.feed('data: {"content":\ndata: "hi"}\n\ndata: not json\n\ndata: [DONE]\n\n')
+
+            expect(onData.mock.calls).toEqual([
+                [{ content: 'hi' }, { event: 'message', data: '{"content":\n"hi"}', id: '' }],
+                ['not json', { event: 'message', data: 'not json', id: '' }],
+            ])
+        })
+    })
+
+    describe('event, id and retry fields', () => {
+        it('names the event and resets the name after dispatch', () => {
+            const { messages } = parse(['event: delta\ndata: a\n\ndata: b\n\n'])
+
+            expect(messages.map((message) => message.event)).toEqual(['delta', 'message'])
+        })
+
+        it('keeps the last event id for later events', () => {
+            const { messages, parser } = parse([
+                'id: 1\ndata: a\n\ndata: b\n\nid: 2\ndata: c\n\n',
+            ])
+
+            expect(messages.map((message) => message.id)).toEqual(['1', '1', '2'])
+            expect(parser.lastEventId).toBe('2')
+        })
+
+        it('clears the last event id on an empty id field', () => {
+            const { messages } = parse(['id: 1\ndata: a\n\nid\ndata: b\n\n'])
+
+            expect(messages.map((message) => message.id)).toEqual(['1', ''])
+        })
+
+        it('ignores ids containing NULL', () => {
+            const { messages } = parse(['id: 1\ndata: a\n\nid: 2\0\ndata: b\n\n'])
+
+            expect(messages.map((message) => message.id)).toEqual(['1', '1'])
+        })
+
+        it('starts from the given last event id', () => {
+            const messages: ISSEMessage[] = []
+            const parser = createSSEParser({
+                lastEventId: '41',
+                onMessage: (message) => messages.push(message),
+            })
+            parser.feed('data: a\n\n')
+
+            expect(messages[0].id).toBe('41')
+        })
+
+        it('reports numeric retry fields only', () => {
+            const onRetry = vi.fn()
+            parse(['retry: 3000\n', 'retry: soon\nretry: -1\nretry: 1.5\nretry: 250\n\n'], {
+                onRetry,
+            })
+
+            expect(onRetry.mock.calls).toEqual([[3000], [250]])
+        })
+
+        it('ignores unknown fields', () => {
+            const { messages } = parse(['foo: bar\ndata: a\nbaz\n\n'])
+
+            expect(messages).toEqual([{ event: 'message', data: 'a', id: '' }])
+        })
+    })
+
+    describe('comments', () => {
+        it('ignores comment lines', () => {
+            const { messages } = parse([': keep-alive\n\n:\ndata: a\n: between\ndata: b\n\n'])
+
+            expect(messages).toHaveLength(1)
+            expect(messages[0].data).toBe('a\nb')
+        })
+
+        it('ignores a comment split across chunks', () => {
+            const { messages } = parse([': keep-', 'alive\r', '\ndata: a\n\n'])
+
+            expect(messages.map((message) => message.data)).toEqual(['a'])
+        })
+    })
+
+    describe('flush', () => {
+        it('dispatches an unterminated final line', () => {
+            const { messages } = parse(['data: a\n\ndata: last'])
+
+            expect(messages.map((message) => message.data)).toEqual(['a', 'last'])
+        })
+
+        it('dispatches a final event missing its blank line', () => {
+            const { messages } = parse(['event: done\ndata: last\n'])
+
+            expect(messages).toEqual([{ event: 'done', data: 'last', id: '' }])
+        })
+
+        it('ends a final line on a trailing CR', () => {
+            const { messages } = parse(['data: last\r'])
+
+            expect(messages.map((message) => message.data)).toEqual(['last'])
+        })
+
+        it('holds the unterminated line until flushed', () => {
+            const { messages, parser } = parse(['data: last'], { flush: false })
+            expect(messages).toHaveLength(0)
+
+            parser.flush()
+            expect(messages.map((message) => message.data)).toEqual(['last'])
+        })
+
+        it('does not dispatch anything for a stream ending in a comment', () => {
+            const { messages } = parse(['data: a\n\n: bye'])
+
+            expect(messages.map((message) => message.data)).toEqual(['a'])
+        })
+    })
+
+    describe('bytes', () => {
+        const encoder = new TextEncoder()
+
+        it('decodes multi-byte characters split between chunks', () => {
+            // 'é' is 2 bytes, '€' 3 and '😀' 4
+            const bytes = encoder.encode('data: é€😀\n\n')
+            const chunks = Array.from(bytes, (byte) => Uint8Array.of(byte))
+            const { messages } = parse(chunks)
+
+            expect(messages.map((message) => message.data)).toEqual(['é€😀'])
+        })
+
+        it('decodes a character split at every possible byte', () => {
+            const bytes = encoder.encode('data: 😀\n\n')
+            const start = 'data: '.length
+
+            for (let split = start + 1; split < start + 4; split++) {
+                const { messages } = parse([bytes.slice(0, split), bytes.slice(split)])
+                expect(messages.map((message) => message.data)).toEqual(['😀'])
+            }
+        })
+
+        it('flushes a truncated character as a replacement character', () => {
+            const bytes = encoder.encode('data: 😀')
+            const { messages } = parse([bytes.slice(0, -1)])
+
+            expect(messages.map((message) => message.data)).toEqual(['\uFFFD'])
+        })
+
+        it('strips a byte order mark at the start of the stream only', () => {
+            const bom = Uint8Array.of(0xef, 0xbb, 0xbf)
+            const { messages } = parse([bom, encoder.encode('data: a\n\ndata: \uFEFFb\n\n')])
+
+            expect(messages.map((message) => message.data)).toEqual(['a', '\uFEFFb'])
+        })
+    })
+
+    it('forgets buffered state on reset', () => {
+        const { messages, parser } = parse(['id: 7\nevent: delta\ndata: partial'], {
+            flush: false,
+        })
+        parser.reset()
+        parser.feed('data: fresh\n\n')
+
+        expect(messages).toEqual([{ event: 'message', data: 'fresh', id: '' }])
+    })
+})
+
+describe('streamSSE', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals()
+    })
+
+    /**
+     * Stubs `fetch` with responses that send the given text, then drop the connection
+     */
+    const stubDroppingServer = (bodies: string[]) => {
+        let request = 0
+        const fetchMock = vi.fn(async () => {
+            const text = bodies[Math.min(request++, bodies.length - 1)]
+            let isSent = false
+            const body = new ReadableStream<Uint8Array>({
+                pull(controller) {
+                    if (isSent) {
+                        controller.error(new TypeError('connection reset'))
+                        return
+                    }
+                    controller.enqueue(new TextEncoder().encode(text))
+                    isSent = true
+                },
+            })
+            return new Response(body)
+        })
+        vi.stubGlobal('fetch', fetchMock)
+        return fetchMock
+    }
+
+    const streamWithRetries = () =>
+        new Promise<{ error: Error; events: unknown[] }>((resolve) => {
+            const events: unknown[] = []
+            void streamSSE({
+                url: '/chat',
+                adapter: (data) => ({ type: 'llm_token', content: String(data) }),
+                onEvent: (event) => events.push(event),
+                onComplete: () => resolve({ error: new Error('completed'), events }),
+                onError: (error) => resolve({ error, events }),
+                retry: { maxRetries: 2, initialDelayMs: 0, jitter: 0 },
+            })
+        })
+
+    it('gives up when reconnects deliver data but no new events', async () => {
+        const fetchMock = stubDroppingServer(['data: partial'])
+
+        const { error } = await streamWithRetries()
+
+        expect(error.name).toBe('NetworkError')
+        expect(fetchMock).toHaveBeenCalledTimes(3)
+    })
+
+    it('gives up when the server replays events it already sent', async () => {
+        const fetchMock = stubDroppingServer(['id: 1\ndata: a\n\n'])
+
+        const { events } = await streamWithRetries()
+
+        expect(fetchMock).toHaveBeenCalledTimes(3)
+        expect(events).toHaveLength(3)
+    })
+
+    it('starts the retry count over after an event with a new id', async () => {
+        const fetchMock = stubDroppingServer([
+            'id: 1\ndata: a\n\n',
+            'data: partial',
+            'id: 2\ndata: b\n\n',
+            'data: partial',
+        ])
+
+        const { events } = await streamWithRetries()
+
+        // Two connections fail before `id: 2`, then two retries are left
+        expect(fetchMock).toHaveBeenCalledTimes(5)
+        expect(events).toEqual([
+            { type: 'llm_token', content: 'a' },
+            { type: 'llm_token', content: 'b' },
+        ])
+    })
+
+    describe('Retry-After', () => {
+        afterEach(() => {
+            vi.useRealTimers()
+        })
+
+        /**
+         * Answers with `status` and the `Retry-After` header, and resolves with the
+         * first reconnection attempt, which is aborted
+         */
+        const firstRetry = (
+            status: number,
+            retryAfter: string,
+            retry: IStreamRetryOptions = { jitter: 0 },
+        ) => {
+            const headers = { 'Retry-After': retryAfter }
+            vi.stubGlobal('fetch', vi.fn(async () => new Response('busy', { status, headers })))
+            const abortController = new AbortController()
+            return new Promise<IStreamRetryInfo>((resolve) => {
+                void streamSSE({
+                    url: '/chat',
+                    adapter: () => null,
+                    onEvent: () => {},
+                    onComplete: () => {},
+                    onError: () => {},
+                    onAbort: () => {},
+                    onRetry: (info) => {
+                        abortController.abort()
+                        resolve(info)
+                    },
+                    retry,
+                    signal: abortController.signal,
+                })
+            })
+        }
+
+        it.each([
+            [429, RateLimitError],
+            [503, HttpError],
+        ])('waits the delta-seconds of a %i response', async (status, ErrorClass) => {
+            const { delayMs, error } = await firstRetry(status, '5')
+
+            expect(delayMs).toBe(5000)
+            expect(error).toBeInstanceOf(ErrorClass)
+            expect(error).toMatchObject({ status, retryAfterMs: 5000 })
+        })
+
+        it('waits until the HTTP date of a 503 response', async () => {
+            vi.useFakeTimers({ toFake: ['Date'] })
+            vi.setSystemTime(new Date('2026-10-19T12:00:00Z'))
+
+            const { delayMs } = await firstRetry(503, 'Mon, 19 Oct 2026 12:00:07 GMT')
+
+            expect(delayMs).toBe(7000)
+        })
+
+        it('waits no time for an HTTP date in the past', async () => {
+            const { delayMs } = await firstRetry(503, 'Wed, 21 Oct 2015 07:28:00 GMT')
+
+            expect(delayMs).toBe(0)
+        })
+
+        it('waits at most maxDelayMs', async () => {
+            const { delayMs } = await firstRetry(503, '3600', { maxDelayMs: 10000 })
+
+            expect(delayMs).toBe(10000)
+        })
+
+        it('falls back to the backoff for an unparseable value', async () => {
+            const { delayMs, error } = await firstRetry(503, 'soon', {
+                initialDelayMs: 250,
+                jitter: 0,
+            })
+
+            expect(delayMs).toBe(250)
+            expect(error).toMatchObject({ retryAfterMs: undefined })
+        })
+    })
+})
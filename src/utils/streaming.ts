@@ -1,5 +1,15 @@
 import type { IStreamEvent } from '../context/ChatConfigContext'
-import type { EventAdapter } from '../adapters/types'
+import type { EventAdapter, EventAdapterResult } from '../adapters/types'
+import {
+    AbortError,
+    ChatStreamError,
+    HttpError,
+    NetworkError,
+    ParseError,
+    RateLimitError,
+    isAbortError,
+    toChatStreamError,
+} from './errors'
 
 /**
  * Maximum allowed size for JSON payloads in bytes (1MB default)
@@ -116,6 +126,62 @@ export const safeJsonParse = (
     }
 }
 
+/**
+ * Normalizes an adapter result to a list of events
+ *
+ * @param result - The value returned by an EventAdapter
+ * @returns The events to dispatch, in order (empty if the raw event was ignored)
+ *
+ * @example
+ * ```ts
+ * toStreamEvents(adapter(rawChunk)).forEach(onEvent)
+ * ```
+ */
+export const toStreamEvents = (result: EventAdapterResult): IStreamEvent[] => {
+    if (!result) return []
+    return Array.isArray(result) ? result : [result]
+}
+
+/**
+ * Opt-in reconnection policy for streamSSE
+ */
+export interface IStreamRetryOptions {
+    /**
+     * Maximum number of reconnection attempts in a row without progress (default: 3).
+     * The count starts over once the stream delivers an event with a new `id`.
+     */
+    maxRetries?: number
+    /** Delay before the first reconnection in ms (default: 1000) */
+    initialDelayMs?: number
+    /** Upper bound for the backoff delay in ms (default: 30000) */
+    maxDelayMs?: number
+    /** Multiplier applied to the delay after each attempt (default: 2) */
+    backoffFactor?: number
+    /** Randomize delays by up to this fraction to avoid thundering herds (default: 0.3) */
+    jitter?: number
+    /** HTTP status codes worth retrying (default: 408, 425, 429, 500, 502, 503, 504) */
+    retryOnStatus?: number[]
+    /** Send `Last-Event-ID` on reconnect so the server can resume the stream (default: true) */
+    resume?: boolean
+}
+
+/**
+ * Details about an upcoming reconnection attempt
+ */
+export interface IStreamRetryInfo {
+    /** Reconnection attempt number, starting at 1 */
+    attempt: number
+    /** Delay before reconnecting in ms */
+    delayMs: number
+    /** The error that interrupted the stream */
+    error: ChatStreamError
+    /**
+     * Whether the stream resumes after the last received event (`Last-Event-ID`).
+     * When false the server restarts the response from the beginning.
+     */
+    resumed: boolean
+}
+
 /**
  * Options for streamSSE helper
  */
@@ -136,48 +202,119 @@ export interface IStreamSSEOptions {
     onEvent: (event: IStreamEvent) => void
     /** Callback when streaming completes */
     onComplete: () => void
-    /** Callback for errors */
-    onError: (error: Error) => void
+    /**
+     * Callback when the request is aborted through `signal`. Without it,
+     * aborts are reported through `onComplete`.
+     */
+    onAbort?: () => void
+    /** Callback for errors, typed by failure kind (see `HttpError`, `NetworkError`, ...) */
+    onError: (error: ChatStreamError) => void
+    /**
+     * Reconnect with exponential backoff after network errors and retryable HTTP statuses.
+     * Pass `true` for the default policy. Disabled by default.
+     */
+    retry?: boolean | IStreamRetryOptions
+    /** Callback before each reconnection attempt */
+    onRetry?: (info: IStreamRetryInfo) => void
+}
+
+const DEFAULT_RETRY_OPTIONS: Required<IStreamRetryOptions> = {
+    maxRetries: 3,
+    initialDelayMs: 1000,
+    maxDelayMs: 30000,
+    backoffFactor: 2,
+    jitter: 0.3,
+    retryOnStatus: [408, 425, 429, 500, 502, 503, 504],
+    resume: true,
 }
 
 /**
- * Parse a single SSE line into data
- *
- * Includes security protections against malicious payloads:
- * - Size limits to prevent DoS via large payloads
- * - Depth limits to prevent stack overflow from deeply nested objects
- *
- * @param line - The SSE line to parse
- * @param options - Parser options including security limits
- * @returns The parsed data or null if parsing fails or limits are exceeded
+ * Runs a network operation, tagging its failures (other than aborts) as network errors
+ */
+const withNetworkErrors = async <T>(operation: () => Promise<T>): Promise<T> => {
+    try {
+        return await operation()
+    } catch (error) {
+        if (isAbortError(error)) throw error
+        throw new NetworkError(error)
+    }
+}
+
+/**
+ * Parses a `Retry-After` header (delay in seconds or an HTTP date) into milliseconds
+ */
+const parseRetryAfter = (value: string | null): number | undefined => {
+    if (!value) return undefined
+    if (/^\d+$/.test(value.trim())) return parseInt(value, 10) * 1000
+    const date = Date.parse(value)
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
+
+/**
+ * Resolves after `ms`, or rejects with an AbortError as soon as the signal aborts
+ */
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+    new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new AbortError())
+            return
+        }
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort)
+            resolve()
+        }, ms)
+        const onAbort = () => {
+            clearTimeout(timer)
+            reject(new AbortError())
+        }
+        signal?.addEventListener('abort', onAbort, { once: true })
+    })
+
+/**
+ * A dispatched Server-Sent Event, as defined by the WHATWG EventSource spec
+ */
+export interface ISSEMessage {
+    /** Event name from the `event:` field (defaults to 'message') */
+    event: string
+    /** Payload: the event's `data:` lines joined with '\n' */
+    data: string
+    /** Last event ID seen on the stream (`id:` field), persists across events */
+    id: string
+}
+
+/**
+ * Splits an SSE line into its field name and value.
+ * A single space after the colon is not part of the value.
  *
- * @example
- * ```ts
- * const data = parseSSELine('data: {"content": "hello"}')
- * // { content: "hello" }
+ * @returns The field and value, or null for comments
+ */
+const parseSSEField = (line: string): { field: string; value: string } | null => {
+    if (line.startsWith(':')) return null
+
+    const colon = line.indexOf(':')
+    if (colon === -1) return { field: line, value: '' }
+
+    const value = line.slice(colon + 1)
+    return {
+        field: line.slice(0, colon),
+        value: value.startsWith(' ') ? value.slice(1) : value,
+    }
+}
+
+/**
+ * Parses an event's data payload, applying the JSON security limits.
+ * Also used by the transports for payloads without SSE framing.
  *
- * // With custom limits
- * const data = parseSSELine(line, { maxJsonSize: 512 * 1024, maxJsonDepth: 50 })
- * ```
+ * @returns The parsed JSON, the raw string if it isn't JSON, or null for empty and [DONE] payloads
  */
-export function parseSSELine(line: string, options: ISSEParserOptions = {}): unknown | null {
+export const parseSSEData = (data: string, options: ISSEParserOptions = {}): unknown | null => {
     const {
-        dataField = 'data',
         parseJson = true,
         maxJsonSize = DEFAULT_MAX_JSON_SIZE,
         maxJsonDepth = DEFAULT_MAX_JSON_DEPTH,
     } = options
 
-    const trimmed = line.trim()
-
-    // Skip empty lines and comments
-    if (!trimmed || trimmed.startsWith(':')) return null
-
-    // Check for data field
-    const prefix = `${dataField}:`
-    if (!trimmed.startsWith(prefix)) return null
-
-    const content = trimmed.slice(prefix.length).trim()
+    const content = data.trim()
 
     // Handle [DONE] token (OpenAI style)
     if (content === '[DONE]') return null
@@ -191,53 +328,202 @@ export function parseSSELine(line: string, options: ISSEParserOptions = {}): unk
         return parsed
     }
 
-    return content
+    return content || null
+}
+
+/**
+ * Parse a single SSE line into data
+ *
+ * Only handles single-line `data:` fields. Use `createSSEParser` for complete
+ * streams with event names, ids and multi-line data.
+ *
+ * Includes security protections against malicious payloads:
+ * - Size limits to prevent DoS via large payloads
+ * - Depth limits to prevent stack overflow from deeply nested objects
+ *
+ * @param line - The SSE line to parse
+ * @param options - Parser options including security limits
+ * @returns The parsed data or null if parsing fails or limits are exceeded
+ *
+ * @example
+ * ```ts
+ * const data = parseSSELine('data: {"content": "hello"}')
+ * // { content: "hello" }
+ *
+ * // With custom limits
+ * const data = parseSSELine(line, { maxJsonSize: 512 * 1024, maxJsonDepth: 50 })
+ * ```
+ */
+export function parseSSELine(line: string, options: ISSEParserOptions = {}): unknown | null {
+    const { dataField = 'data' } = options
+
+    const parsedField = parseSSEField(line.replace(/\r?\n?$/, ''))
+    if (!parsedField || parsedField.field !== dataField) return null
+
+    return parseSSEData(parsedField.value, options)
 }
 
 /**
  * Creates a streaming SSE parser that handles chunked data
  *
+ * Follows the WHATWG EventSource parsing rules: lines end in CRLF, LF or CR;
+ * `data:` lines are joined until a blank line dispatches the event; `event:`,
+ * `id:` and `retry:` fields are honoured and comments are ignored. Chunks may
+ * be strings or raw bytes, and may split lines or UTF-8 sequences anywhere.
+ *
+ * Each event is delivered as an `ISSEMessage` to `onMessage`, its parsed
+ * payload to `onData`, and - when `adapter` and `onEvent` are given - every
+ * event the adapter returns to `onEvent`.
+ *
  * @example
  * ```ts
  * const parser = createSSEParser({
- *   onData: (data) => console.log('Received:', data),
+ *   onData: (data, message) => console.log(message.event, data),
  * })
  *
- * // Feed chunks as they arrive
+ * // Or run payloads through an adapter
+ * const parser = createSSEParser({
+ *   adapter: createOpenAIAdapter(),
+ *   onEvent: (event) => console.log('Event:', event),
+ * })
+ *
+ * // Feed chunks as they arrive, then flush when the stream ends
  * parser.feed(chunk1)
  * parser.feed(chunk2)
+ * parser.flush()
  * ```
  */
 export function createSSEParser(options: {
-    onData: (data: unknown) => void
+    onMessage?: (message: ISSEMessage) => void
+    onData?: (data: unknown, message: ISSEMessage) => void
+    adapter?: EventAdapter
+    onEvent?: (event: IStreamEvent) => void
+    /** Called with the reconnection time (ms) when the server sends a `retry:` field */
+    onRetry?: (retryMs: number) => void
+    /** Initial last event ID, e.g. when resuming a previous connection */
+    lastEventId?: string
     parserOptions?: ISSEParserOptions
 }): {
-    feed: (chunk: string) => void
+    feed: (chunk: string | Uint8Array) => void
+    flush: () => void
     reset: () => void
+    readonly lastEventId: string
 } {
+    const dataField = options.parserOptions?.dataField ?? 'data'
+
+    let decoder = new TextDecoder()
     let buffer = ''
+    let isStreamStart = true
+    let eventType = ''
+    let dataLines: string[] = []
+    let lastEventId = options.lastEventId ?? ''
+
+    const dispatch = () => {
+        // Events without data are discarded
+        if (dataLines.length === 0) {
+            eventType = ''
+            return
+        }
+
+        const message: ISSEMessage = {
+            event: eventType || 'message',
+            data: dataLines.join('\n'),
+            id: lastEventId,
+        }
+        eventType = ''
+        dataLines = []
 
-    const feed = (chunk: string) => {
-        buffer += chunk
+        options.onMessage?.(message)
 
-        // Process complete lines
-        const lines = buffer.split('\n')
-        // Keep the last potentially incomplete line in the buffer
-        buffer = lines.pop() ?? ''
+        const data = parseSSEData(message.data, options.parserOptions)
+        if (data === null) return
 
-        for (const line of lines) {
-            const data = parseSSELine(line, options.parserOptions)
-            if (data !== null) {
-                options.onData(data)
-            }
+        options.onData?.(data, message)
+        if (options.adapter && options.onEvent) {
+            toStreamEvents(options.adapter(data, message)).forEach(options.onEvent)
+        }
+    }
+
+    const processLine = (line: string) => {
+        if (line === '') {
+            dispatch()
+            return
+        }
+
+        const parsedField = parseSSEField(line)
+        if (!parsedField) return
+
+        const { field, value } = parsedField
+        if (field === dataField) {
+            dataLines.push(value)
+        } else if (field === 'event') {
+            eventType = value
+        } else if (field === 'id') {
+            if (!value.includes('\0')) lastEventId = value
+        } else if (field === 'retry') {
+            if (/^\d+$/.test(value)) options.onRetry?.(parseInt(value, 10))
+        }
+    }
+
+    const processBuffer = (isFinal: boolean) => {
+        let lineStart = 0
+        for (let i = 0; i < buffer.length; i++) {
+            const char = buffer[i]
+            if (char !== '\n' && char !== '\r') continue
+
+            // A trailing CR may be the first half of a CRLF split across chunks
+            if (char === '\r' && i === buffer.length - 1 && !isFinal) break
+
+            processLine(buffer.slice(lineStart, i))
+            if (char === '\r' && buffer[i + 1] === '\n') i++
+            lineStart = i + 1
+        }
+        buffer = buffer.slice(lineStart)
+    }
+
+    const feed = (chunk: string | Uint8Array) => {
+        let text = typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true })
+        if (!text) return
+
+        // Strip the UTF-8 byte order mark at the start of the stream
+        if (isStreamStart) {
+            if (text.charCodeAt(0) === 0xfeff) text = text.slice(1)
+            isStreamStart = false
+        }
+
+        buffer += text
+        processBuffer(false)
+    }
+
+    const flush = () => {
+        buffer += decoder.decode()
+        processBuffer(true)
+
+        // Treat an unterminated final line and event as complete
+        if (buffer) {
+            processLine(buffer)
+            buffer = ''
         }
+        dispatch()
     }
 
     const reset = () => {
+        decoder = new TextDecoder()
         buffer = ''
+        isStreamStart = true
+        eventType = ''
+        dataLines = []
+        lastEventId = ''
     }
 
-    return { feed, reset }
+    return {
+        feed,
+        flush,
+        reset,
+        get lastEventId() {
+            return lastEventId
+        },
+    }
 }
 
 /**
@@ -275,63 +561,138 @@ export async function streamSSE(options: IStreamSSEOptions): Promise<void> {
         adapter,
         onEvent,
         onComplete,
+        onAbort = onComplete,
         onError,
+        retry,
+        onRetry,
     } = options
 
-    try {
-        const response = await fetch(url, {
-            method,
-            headers: {
-                'Content-Type': 'application/json',
-                Accept: 'text/event-stream',
-                ...headers,
+    const retryPolicy = retry
+        ? { ...DEFAULT_RETRY_OPTIONS, ...(retry === true ? {} : retry) }
+        : null
+    let attempt = 0
+    let serverRetryMs: number | undefined
+    // Event ids received so far; a new one counts as progress
+    const seenEventIds = new Set<string>()
+
+    const createParser = (lastEventId = '') =>
+        createSSEParser({
+            adapter,
+            onEvent,
+            onRetry: (retryMs) => {
+                serverRetryMs = retryMs
             },
-            body: body ? JSON.stringify(body) : undefined,
-            signal,
+            lastEventId,
         })
+    let parser = createParser()
+
+    // Parser and adapter failures are not retryable; report them as ParseError
+    const parseChunk = (parse: () => void) => {
+        try {
+            parse()
+        } catch (error) {
+            throw new ParseError(error)
+        }
+    }
+
+    // Reads one connection to the end; throws on network or HTTP errors
+    const connect = async () => {
+        const resumeFrom = retryPolicy?.resume ? parser.lastEventId : ''
+        const response = await withNetworkErrors(() =>
+            fetch(url, {
+                method,
+                headers: {
+                    'Content-Type': 'application/json',
+                    Accept: 'text/event-stream',
+                    ...(resumeFrom ? { 'Last-Event-ID': resumeFrom } : {}),
+                    ...headers,
+                },
+                body: body ? JSON.stringify(body) : undefined,
+                signal,
+            }),
+        )
 
         if (!response.ok) {
-            const errorText = await response.text()
-            throw new Error(`HTTP ${response.status}: ${errorText}`)
+            const errorText = await withNetworkErrors(() => response.text())
+            const retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'))
+            if (response.status === 429) throw new RateLimitError(errorText, retryAfterMs)
+            throw new HttpError(response.status, errorText, retryAfterMs)
         }
 
         if (!response.body) {
-            throw new Error('Response body is null')
+            throw new NetworkError(new Error('Response body is null'))
         }
 
         const reader = response.body.getReader()
-        const decoder = new TextDecoder()
 
-        const parser = createSSEParser({
-            onData: (data) => {
-                const event = adapter(data)
-                if (event) {
-                    onEvent(event)
-                }
-            },
-        })
+        while (true) {
+            const { done, value } = await withNetworkErrors(() => reader.read())
 
-        try {
-            while (true) {
-                const { done, value } = await reader.read()
+            if (done) {
+                parseChunk(() => parser.flush())
+                return
+            }
 
-                if (done) {
-                    onComplete()
-                    break
-                }
+            parseChunk(() => parser.feed(value))
 
-                const chunk = decoder.decode(value, { stream: true })
-                parser.feed(chunk)
+            // An event with a new id is real progress, so the retry budget starts over.
+            // Bytes alone are not: a server failing mid-event would be retried forever.
+            const eventId = parser.lastEventId
+            if (eventId && !seenEventIds.has(eventId)) {
+                seenEventIds.add(eventId)
+                attempt = 0
             }
+        }
+    }
+
+    while (true) {
+        try {
+            await connect()
+            onComplete()
+            return
         } catch (error) {
             // Handle abort
-            if (error instanceof Error && error.name === 'AbortError') {
-                onComplete()
+            if (isAbortError(error)) {
+                onAbort()
+                return
+            }
+
+            const streamError = toChatStreamError(error)
+            const isRetryable =
+                streamError instanceof NetworkError ||
+                (streamError instanceof HttpError &&
+                    retryPolicy?.retryOnStatus.includes(streamError.status))
+
+            if (!retryPolicy || !isRetryable || attempt >= retryPolicy.maxRetries) {
+                onError(streamError)
+                return
+            }
+
+            attempt++
+            const backoff = Math.min(
+                retryPolicy.maxDelayMs,
+                (serverRetryMs ?? retryPolicy.initialDelayMs) *
+                    retryPolicy.backoffFactor ** (attempt - 1),
+            )
+            // A `Retry-After` of the server is kept to, up to `maxDelayMs`
+            const retryAfterMs =
+                streamError instanceof HttpError ? streamError.retryAfterMs : undefined
+            const delayMs =
+                retryAfterMs !== undefined
+                    ? Math.min(retryPolicy.maxDelayMs, retryAfterMs)
+                    : Math.round(backoff * (1 + retryPolicy.jitter * (Math.random() * 2 - 1)))
+
+            // Drop any half-received event; keep the last event id for resuming
+            const resumed = retryPolicy.resume && parser.lastEventId !== ''
+            parser = createParser(resumed ? parser.lastEventId : '')
+            onRetry?.({ attempt, delayMs, error: streamError, resumed })
+
+            try {
+                await sleep(delayMs, signal)
+            } catch {
+                onAbort()
                 return
             }
-            throw error
         }
-    } catch (error) {
-        onError(error instanceof Error ? error : new Error(String(error)))
     }
 }
@@ -0,0 +1,87 @@
+import type { IMessage, ITokenUsage } from '../types'
+import type { IModelOption, IModelPricing } from '../hooks/useModelSelection'
+import { getMessageVersions } from './messageVersions'
+
+/**
+ * Token usage of one model, with its cost when the model has pricing
+ */
+export interface IModelUsage extends ITokenUsage {
+    /** Cost from the model's `pricing`, if it has any */
+    cost?: number
+}
+
+/**
+ * Token usage of a conversation: every answer it received, including
+ * earlier answers of regenerated messages and the branches of edited ones
+ */
+export interface IConversationUsage extends ITokenUsage {
+    /**
+     * Cost of the models that have `pricing`; usage of models without it is
+     * left out. `undefined` when no model used has pricing.
+     */
+    cost?: number
+    /** Usage per model (`'unknown'` for answers without a model) */
+    byModel: Record<string, IModelUsage>
+}
+
+/**
+ * Sums two token counts; either may be missing
+ */
+export const addUsage = (a?: ITokenUsage, b?: ITokenUsage): ITokenUsage => ({
+    inputTokens: (a?.inputTokens ?? 0) + (b?.inputTokens ?? 0),
+    outputTokens: (a?.outputTokens ?? 0) + (b?.outputTokens ?? 0),
+})
+
+/**
+ * Cost of token usage at a model's prices
+ */
+export const getUsageCost = (usage: ITokenUsage, pricing: IModelPricing): number =>
+    (usage.inputTokens * pricing.inputPerMillionTokens +
+        usage.outputTokens * pricing.outputPerMillionTokens) /
+    1_000_000
+
+/**
+ * Every answer in the messages with its model: all versions of regenerated
+ * answers, and the messages of branches that aren't shown
+ */
+const collectAnswers = (
+    messages: IMessage[],
+): Array<{ usage?: ITokenUsage; model?: string }> =>
+    messages.flatMap((message) => {
+        const hiddenBranches = (message.branches ?? []).filter(
+            (_, branchIndex) => branchIndex !== (message.branchIndex ?? 0),
+        )
+        const answers = message.versions ? getMessageVersions(message) : [message]
+        return [...answers, ...hiddenBranches.flatMap(collectAnswers)]
+    })
+
+/**
+ * Totals the token usage of a conversation, and its cost for models with
+ * `pricing`.
+ *
+ * @example
+ * ```ts
+ * const { inputTokens, outputTokens, cost } = getConversationUsage(messages, models)
+ * ```
+ */
+export const getConversationUsage = (
+    messages: IMessage[],
+    models: IModelOption[] = [],
+): IConversationUsage => {
+    const byModel: Record<string, IModelUsage> = {}
+    for (const { usage, model = 'unknown' } of collectAnswers(messages)) {
+        if (usage) byModel[model] = addUsage(byModel[model], usage)
+    }
+
+    let total: ITokenUsage = { inputTokens: 0, outputTokens: 0 }
+    let cost: number | undefined
+    for (const [model, usage] of Object.entries(byModel)) {
+        total = addUsage(total, usage)
+        const pricing = models.find((option) => option.id === model)?.pricing
+        if (!pricing) continue
+        usage.cost = getUsageCost(usage, pricing)
+        cost = (cost ?? 0) + usage.cost
+    }
+
+    return { ...total, cost, byModel }
+}